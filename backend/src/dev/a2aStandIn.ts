@@ -0,0 +1,307 @@
+/**
+ * Local A2A Stand-in Server
+ * Emulates the four Archestra interview agents over A2A JSON-RPC
+ * (`message/send`, `tasks/get`, `tasks/cancel` at /v1/a2a/{agentId}) so the
+ * full interview flow runs offline. Conversations are kept per contextId, so
+ * agents follow CONTEXT UPDATE turns like a real stateful agent would.
+ *
+ * Point the backend at it with:
+ *   ARCHESTRA_BASE_URL=http://localhost:4010  ARCHESTRA_API_KEY=local
+ *
+ * Faults can be injected per agent to exercise the fallback branches in
+ * routes/interview.ts, either at startup:
+ *   A2A_FAULTS="evaluator=http500,interviewer=slow:8000,analyst=prose"
+ * or at runtime:
+ *   POST   /faults  { "target": "evaluator", "mode": "malformed", "times": 1 }
+ *   GET    /faults
+ *   DELETE /faults
+ */
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { randomUUID } from 'node:crypto';
+import express, { Request, Response } from 'express';
+import type { AgentRole } from '../services/agents.js';
+import { listAgents, loadAgentRegistry } from '../services/agentRegistry.js';
+import { parsePrompt, runScriptedTurn } from '../services/scriptedAgents.js';
+import { applyContextUpdate } from '../services/conversations.js';
+
+type FaultMode = 'http500' | 'malformed' | 'prose' | 'slow' | 'rpc-error' | 'invalid-schema' | 'overreach';
+
+const FAULT_MODES: FaultMode[] = ['http500', 'malformed', 'prose', 'slow', 'rpc-error', 'invalid-schema', 'overreach'];
+
+interface Fault {
+    /** Agent role, agent ID, or "*" for every agent */
+    target: string;
+    mode: FaultMode;
+    /** Delay for "slow" (ms) */
+    delayMs: number;
+    /** Remaining calls to affect; undefined = until cleared */
+    times?: number;
+}
+
+const PORT = Number(process.env.A2A_STANDIN_PORT) || 4010;
+const ROLES: AgentRole[] = ['interviewer', 'evaluator', 'codeReviewer', 'analyst'];
+
+interface StandInConversation {
+    role: AgentRole;
+    context?: Record<string, unknown>;
+    instruction?: string;
+}
+
+interface StandInTask {
+    id: string;
+    contextId: string;
+    state: 'working' | 'completed' | 'canceled';
+    text?: string;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+let faults: Fault[] = [];
+const conversations = new Map<string, StandInConversation>();
+const tasks = new Map<string, StandInTask>();
+
+/**
+ * Map the agentId in the URL to a role: either the role name itself or the
+ * ID of an agent configured for that role (registry file or INTERVIEWER_AGENT_ID etc.).
+ */
+function resolveRole(agentId: string): AgentRole | undefined {
+    if ((ROLES as string[]).includes(agentId)) return agentId as AgentRole;
+    return listAgents().find(a => a.id === agentId)?.role;
+}
+
+function parseFault(target: string, spec: string, times?: number): Fault {
+    const [mode, delay] = spec.split(':');
+    if (!(FAULT_MODES as string[]).includes(mode)) {
+        throw new Error(`Unknown fault mode "${mode}" (expected one of ${FAULT_MODES.join(', ')})`);
+    }
+    return { target, mode: mode as FaultMode, delayMs: Number(delay) || 5000, times };
+}
+
+function loadFaultsFromEnv(): Fault[] {
+    const raw = process.env.A2A_FAULTS;
+    if (!raw) return [];
+    return raw.split(',').filter(Boolean).map(entry => {
+        const [target, spec] = entry.trim().split('=');
+        return parseFault(target, spec || '');
+    });
+}
+
+/**
+ * Pick the first fault that applies to this call and consume one use of it.
+ */
+function takeFault(agentId: string, role: AgentRole): Fault | undefined {
+    const fault = faults.find(f => f.target === '*' || f.target === role || f.target === agentId);
+    if (!fault) return undefined;
+
+    if (fault.times !== undefined) {
+        fault.times -= 1;
+        if (fault.times <= 0) faults = faults.filter(f => f !== fault);
+    }
+    return fault;
+}
+
+function promptFromRequest(body: Record<string, unknown>): string | undefined {
+    const params = body.params as Record<string, unknown> | undefined;
+    const message = params?.message as Record<string, unknown> | undefined;
+    const parts = message?.parts as Array<Record<string, unknown>> | undefined;
+    if (!parts) return undefined;
+
+    return parts
+        .filter(p => p.kind === 'text' && typeof p.text === 'string')
+        .map(p => p.text as string)
+        .join('\n');
+}
+
+function rpcResult(id: unknown, contextId: string, text: string) {
+    return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+            kind: 'message',
+            role: 'agent',
+            messageId: randomUUID(),
+            contextId,
+            parts: [{ kind: 'text', text }],
+        },
+    };
+}
+
+function taskResult(id: unknown, task: StandInTask) {
+    return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+            kind: 'task',
+            id: task.id,
+            contextId: task.contextId,
+            status: { state: task.state, timestamp: new Date().toISOString() },
+            artifacts: task.text ? [{ artifactId: `${task.id}-reply`, parts: [{ kind: 'text', text: task.text }] }] : [],
+        },
+    };
+}
+
+function rpcError(id: unknown, code: number, message: string) {
+    return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+const app = express();
+app.use(express.json({ limit: '10mb' }));
+
+/**
+ * Apply a reply-shaping fault to a scripted reply.
+ */
+function shapeReply(mode: FaultMode | undefined, reply: string): string {
+    if (mode === 'malformed') {
+        // Truncated JSON that cannot be parsed or recovered
+        return reply.substring(0, Math.floor(reply.length / 2));
+    }
+    if (mode === 'invalid-schema') {
+        // Valid JSON, wrong types: every numeric score becomes a string
+        return reply.replace(/"(score|overallScore)":(\d+)/g, '"$1":"$2"');
+    }
+    if (mode === 'overreach') {
+        // Delta that also tries to rewrite fields owned by someone else
+        const delta = JSON.parse(reply) as Record<string, unknown>;
+        return JSON.stringify({ ...delta, role: 'Intern', questions: [], currentDifficulty: 'easy' });
+    }
+    if (mode === 'prose') {
+        return `Sure! Here is my answer:\n\n${reply}\n\nLet me know if you need anything else.`;
+    }
+    return reply;
+}
+
+function handleMessageSend(req: Request, res: Response, agentId: string, role: AgentRole) {
+    const body = req.body as Record<string, unknown>;
+    const rpcId = body.id ?? null;
+
+    const prompt = promptFromRequest(body);
+    if (!prompt) {
+        res.json(rpcError(rpcId, -32602, 'params.message.parts must contain a text part'));
+        return;
+    }
+
+    const params = body.params as Record<string, unknown>;
+    const requestedContextId = (params.message as Record<string, unknown>).contextId as string | undefined;
+    const contextId = requestedContextId || randomUUID();
+    const conversation = conversations.get(contextId) || { role };
+
+    if (requestedContextId && !conversations.has(requestedContextId)) {
+        res.json(rpcError(rpcId, -32001, `Unknown contextId ${requestedContextId}`));
+        return;
+    }
+
+    const { context, update, instruction } = parsePrompt(prompt);
+    if (context) conversation.context = context;
+    if (update) conversation.context = applyContextUpdate(conversation.context || {}, update);
+    if (instruction) conversation.instruction = instruction;
+    conversations.set(contextId, conversation);
+
+    if (!conversation.context || !conversation.instruction) {
+        res.json(rpcError(rpcId, -32602, 'First message of a conversation needs SYSTEM CONTEXT and INSTRUCTION'));
+        return;
+    }
+
+    const fault = takeFault(agentId, role);
+    console.log(`  ← ${role} (${requestedContextId ? 'continued' : 'new'} context ${contextId.substring(0, 8)})${fault ? ` [fault: ${fault.mode}]` : ''}`);
+
+    if (fault?.mode === 'http500') {
+        res.status(500).send('Internal Server Error (injected)');
+        return;
+    }
+    if (fault?.mode === 'rpc-error') {
+        res.json(rpcError(rpcId, -32603, 'Agent execution failed (injected)'));
+        return;
+    }
+
+    const reply = shapeReply(fault?.mode, runScriptedTurn(role, conversation.context, conversation.instruction));
+
+    if (fault?.mode === 'slow') {
+        // Long-running: hand back a working task, complete it later
+        const task: StandInTask = { id: randomUUID(), contextId, state: 'working' };
+        task.timer = setTimeout(() => {
+            task.state = 'completed';
+            task.text = reply;
+        }, fault.delayMs);
+        tasks.set(task.id, task);
+        res.json(taskResult(rpcId, task));
+        return;
+    }
+
+    res.json(rpcResult(rpcId, contextId, reply));
+}
+
+function handleTaskCall(req: Request, res: Response) {
+    const body = req.body as Record<string, unknown>;
+    const rpcId = body.id ?? null;
+    const params = body.params as Record<string, unknown> | undefined;
+    const task = tasks.get(String(params?.id));
+
+    if (!task) {
+        res.json(rpcError(rpcId, -32001, `Task not found: ${String(params?.id)}`));
+        return;
+    }
+
+    if (body.method === 'tasks/cancel' && task.state === 'working') {
+        clearTimeout(task.timer);
+        task.state = 'canceled';
+        console.log(`  ✗ task ${task.id.substring(0, 8)} canceled`);
+    }
+    res.json(taskResult(rpcId, task));
+}
+
+app.post('/v1/a2a/:agentId', (req: Request, res: Response) => {
+    const agentId = req.params.agentId as string;
+    const body = req.body as Record<string, unknown>;
+    const rpcId = body.id ?? null;
+
+    const role = resolveRole(agentId);
+    if (!role) {
+        res.status(404).json(rpcError(rpcId, -32001, `Unknown agent ${agentId}`));
+        return;
+    }
+
+    switch (body.method) {
+        case 'message/send':
+            handleMessageSend(req, res, agentId, role);
+            return;
+        case 'tasks/get':
+        case 'tasks/cancel':
+            handleTaskCall(req, res);
+            return;
+        default:
+            res.json(rpcError(rpcId, -32601, `Method not found: ${String(body.method)}`));
+    }
+});
+
+app.get('/faults', (_req: Request, res: Response) => {
+    res.json({ faults });
+});
+
+app.post('/faults', (req: Request, res: Response) => {
+    const { target = '*', mode, delayMs, times } = req.body;
+    try {
+        const fault = parseFault(target, delayMs ? `${mode}:${delayMs}` : String(mode), times);
+        faults.push(fault);
+        res.json({ faults });
+    } catch (error) {
+        res.status(400).json({ error: (error as Error).message });
+    }
+});
+
+app.delete('/faults', (_req: Request, res: Response) => {
+    faults = [];
+    res.json({ faults });
+});
+
+faults = loadFaultsFromEnv();
+loadAgentRegistry();
+
+app.listen(PORT, () => {
+    console.log(`\n🧪 A2A stand-in running on http://localhost:${PORT}/v1/a2a/{agentId}`);
+    console.log(`   Agents: ${ROLES.join(', ')} (or a configured agent ID)`);
+    if (faults.length > 0) {
+        console.log(`   Faults: ${faults.map(f => `${f.target}=${f.mode}`).join(', ')}`);
+    }
+    console.log('');
+});
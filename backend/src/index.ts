@@ -5,6 +5,30 @@ dotenv.config();
 import express from 'express';
 import cors from 'cors';
 import { interviewRouter } from './routes/interview.js';
+import { questionBankRouter } from './routes/questionBank.js';
+import { AGENT_ROLES } from './services/agents.js';
+import { loadAgentRegistry, listAgents, resolveAgent, getRegistryStatus } from './services/agentRegistry.js';
+import { getBreakerStatuses } from './services/circuitBreaker.js';
+import { loadPromptTemplates, getActivePromptVersions } from './services/promptRegistry.js';
+import { openSessionStore } from './services/storage/index.js';
+import { startSessionSweeper } from './services/sessionLifecycle.js';
+import { getDefaultTemplateId, listTemplates, loadInterviewTemplates } from './services/interviewTemplates.js';
+import { getDefaultProfileId, listRoleProfiles, loadRoleProfiles } from './services/roleProfiles.js';
+import { getDefaultQuestionSource } from './services/questionBank.js';
+import { isAdminEnabled } from './services/adminAuth.js';
+import { getDefaultMaxFollowUps } from './services/followUps.js';
+
+// Fail fast on a broken prompt template, agent registry (which may pin prompts),
+// interview template, role profile, question source or follow-up limit
+loadPromptTemplates();
+loadAgentRegistry();
+loadInterviewTemplates();
+loadRoleProfiles();
+getDefaultQuestionSource();
+getDefaultMaxFollowUps();
+// ...and on a session store that can't be opened or migrated
+const sessionStore = openSessionStore();
+startSessionSweeper();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -35,12 +59,23 @@ app.use(express.json({ limit: '10mb' }));
 
 // Routes
 app.use('/api/interview', interviewRouter);
+app.use('/api/questions', questionBankRouter);
 
 // Health check
 app.get('/api/health', (_req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Agent diagnostics: configured agents, registry state, circuit breakers and active prompt versions
+app.get('/api/diagnostics/agents', (_req, res) => {
+    res.json({
+        agents: listAgents(),
+        registry: getRegistryStatus(),
+        breakers: getBreakerStatuses(),
+        prompts: getActivePromptVersions(),
+    });
+});
+
 // Root route for deployment checks
 app.get('/', (_req, res) => {
     res.json({
@@ -55,5 +90,19 @@ app.listen(PORT, () => {
     console.log(`\n🚀 Interview Backend running on http://localhost:${PORT}`);
     console.log(`📋 Health: http://localhost:${PORT}/api/health`);
     console.log(`🤖 Archestra: ${process.env.ARCHESTRA_BASE_URL}`);
-    console.log(`🎙️ Agents: interviewer=${process.env.INTERVIEWER_AGENT_ID?.substring(0, 8)}, evaluator=${process.env.EVALUATOR_AGENT_ID?.substring(0, 8)}\n`);
+    console.log(`💾 Sessions: ${sessionStore.kind}${sessionStore.location ? ` (${sessionStore.location})` : ''}`);
+    // Defaults per role; registry routes may pick others per session
+    const agents = AGENT_ROLES.map(role => resolveAgent(role))
+        .map(a => `${a.role}=${a.name ? `${a.name}/` : ''}${a.provider}:${a.id.substring(0, 8)}`)
+        .join(', ');
+    console.log(`🎙️ Agents (${getRegistryStatus().source}): ${agents}`);
+    const prompts = Object.entries(getActivePromptVersions())
+        .map(([id, version]) => `${id}@${version}`)
+        .join(', ');
+    console.log(`📜 Prompts: ${prompts}`);
+    console.log(`🗂️ Templates: ${listTemplates().map(t => t.id).join(', ')} (default ${getDefaultTemplateId()})`);
+    const roles = listRoleProfiles().map(p => p.id).join(', ') || 'generic only';
+    console.log(`🧑‍💼 Role profiles: ${roles}${getDefaultProfileId() ? ` (default ${getDefaultProfileId()})` : ''}`);
+    console.log(`📚 Questions: ${sessionStore.questions.list().length} in the bank, default source ${getDefaultQuestionSource()} (API ${isAdminEnabled() ? 'admin only' : 'off, no ADMIN_TOKEN'})`);
+    console.log(`🔎 Follow-ups: up to ${getDefaultMaxFollowUps()} per question (unless the template section sets maxFollowUps)\n`);
 });
@@ -0,0 +1,322 @@
+/**
+ * Interview route tests
+ * Run the routes against the in-memory store with the scripted mock agents.
+ */
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { interviewRouter } from './interview.js';
+import { mockProvider } from '../services/providers/mock.js';
+import { getTrace } from '../services/agentTrace.js';
+import { getSession } from '../services/sessionManager.js';
+import { loadPromptTemplates } from '../services/promptRegistry.js';
+import { openSessionStore } from '../services/storage/index.js';
+
+process.env.SESSION_STORE = 'memory';
+process.env.AGENT_PROVIDER = 'mock';
+
+const scriptedSend = mockProvider.send;
+
+let server: Server;
+let baseUrl: string;
+
+// The parts of the route responses the tests look at
+
+interface QuestionBody {
+    id: number;
+    type: 'video' | 'code';
+    parentId?: number;
+}
+
+interface ScoreBody {
+    score: number;
+    promptVersion?: string;
+    criteria?: unknown[];
+}
+
+interface StartResponse { sessionId: string; question: QuestionBody }
+interface AnswerResponse { evaluation: ScoreBody | null; nextQuestion: QuestionBody | null }
+interface SubmitCodeResponse { review: ScoreBody; nextQuestion: QuestionBody | null }
+interface ResumeResponse { question: QuestionBody; currentQuestion: number }
+interface LeaveResponse { cancelled: number }
+interface CompleteResponse { analysis: Record<string, unknown> }
+interface ErrorResponse { error: string }
+
+interface Reply<T> {
+    status: number;
+    body: T;
+}
+
+interface SessionResponse {
+    session: {
+        phase: string;
+        questions: Array<QuestionBody & { answer?: string; rubric?: unknown; evaluation?: unknown }>;
+        currentDifficulty?: string;
+        usage?: unknown;
+    };
+    allowedActions: string[];
+}
+
+async function post<T = unknown>(path: string, body: unknown): Promise<Reply<T>> {
+    const res = await fetch(`${baseUrl}/api/interview${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as T };
+}
+
+async function get<T = unknown>(path: string): Promise<Reply<T>> {
+    const res = await fetch(`${baseUrl}/api/interview${path}`);
+    return { status: res.status, body: await res.json() as T };
+}
+
+before(async () => {
+    // The routes narrate every agent call; keep the test output readable
+    for (const method of ['log', 'warn', 'error'] as const) mock.method(console, method, () => {});
+    loadPromptTemplates();
+    openSessionStore();
+    const app = express();
+    app.use(express.json());
+    app.use('/api/interview', interviewRouter);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.close();
+});
+
+beforeEach(() => {
+    mockProvider.send = scriptedSend;
+});
+
+describe('POST /leave', () => {
+    it('stops an answer whose evaluation is in flight without recording a fallback', async () => {
+        const start = await post<StartResponse>('/start', {});
+        assert.equal(start.status, 200);
+        const { sessionId, question } = start.body;
+
+        // The evaluator hangs until its call is cancelled
+        let evaluating!: () => void;
+        const evaluationStarted = new Promise<void>(resolve => { evaluating = resolve; });
+        mockProvider.send = (agent, request) => {
+            if (agent.role !== 'evaluator') return scriptedSend.call(mockProvider, agent, request);
+            evaluating();
+            return new Promise((_resolve, reject) => {
+                request.signal.addEventListener('abort', () => reject(request.signal.reason));
+            });
+        };
+
+        const answer = post<ErrorResponse>('/answer', {
+            sessionId,
+            questionId: question.id,
+            skipped: false,
+            transcript: 'I would keep the state in a reducer and derive everything else from it, memoising the expensive selectors so that components only re-render when the slice they read actually changes, and test the reducer on its own.',
+        });
+        await evaluationStarted;
+
+        const leave = await post<LeaveResponse>('/leave', { sessionId });
+        assert.equal(leave.status, 200);
+        assert.equal(leave.body.cancelled, 1);
+
+        const answered = await answer;
+        assert.equal(answered.status, 409);
+        assert.match(answered.body.error, /cancelled/);
+
+        const session = getSession(sessionId)!;
+        assert.equal(session.questions.length, 1, 'no next question is asked');
+        assert.equal(session.questions[0].evaluation, undefined, 'no fallback evaluation is recorded');
+        assert.ok(getTrace(sessionId).every(entry => !entry.fallbackUsed));
+    });
+
+    it('owes the cancelled answer its score and the next question until /resume asks it', async () => {
+        const start = await post<StartResponse>('/start', {});
+        const { sessionId, question } = start.body;
+
+        let evaluating!: () => void;
+        const evaluationStarted = new Promise<void>(resolve => { evaluating = resolve; });
+        mockProvider.send = (agent, request) => {
+            if (agent.role !== 'evaluator') return scriptedSend.call(mockProvider, agent, request);
+            evaluating();
+            return new Promise((_resolve, reject) => {
+                request.signal.addEventListener('abort', () => reject(request.signal.reason));
+            });
+        };
+
+        const answer = post('/answer', { sessionId, questionId: question.id, skipped: false, transcript: 'No idea, sorry.' });
+        await evaluationStarted;
+        await post('/leave', { sessionId });
+        assert.equal((await answer).status, 409);
+        mockProvider.send = scriptedSend;
+
+        // Reloaded: nothing is pending, but the interview is not over either
+        const state = await get<SessionResponse>(`/session/${sessionId}`);
+        assert.deepEqual(state.body.allowedActions, ['resume', 'leave']);
+        assert.equal((await post('/complete', { sessionId })).status, 409);
+
+        const resumed = await post<ResumeResponse>('/resume', { sessionId });
+        assert.equal(resumed.status, 200);
+        assert.equal(resumed.body.currentQuestion, 2);
+        assert.equal(resumed.body.question.parentId, undefined);
+
+        const session = getSession(sessionId)!;
+        assert.ok(session.questions[0].evaluation, 'the cancelled answer is scored');
+        assert.equal(session.questions[1].id, resumed.body.question.id);
+
+        // The next question is pending now: nothing more is owed
+        assert.equal((await post('/resume', { sessionId })).status, 409);
+    });
+
+    it('lets a cancelled /complete be retried instead of leaving the session analysing', async () => {
+        const start = await post<StartResponse>('/start', {});
+        const { sessionId } = start.body;
+
+        let question: QuestionBody | null = start.body.question;
+        while (question) {
+            // Typed up front: the loop's next question comes out of the reply
+            const answered: Reply<AnswerResponse | SubmitCodeResponse> = question.type === 'video'
+                ? await post('/answer', { sessionId, questionId: question.id, skipped: true })
+                : await post('/submit-code', { sessionId, questionId: question.id, code: '' });
+            assert.equal(answered.status, 200);
+            question = answered.body.nextQuestion;
+        }
+        const finishedIn = getSession(sessionId)!.phase;
+
+        let analysing!: () => void;
+        const analysisStarted = new Promise<void>(resolve => { analysing = resolve; });
+        mockProvider.send = (agent, request) => {
+            if (agent.role !== 'analyst') return scriptedSend.call(mockProvider, agent, request);
+            analysing();
+            return new Promise((_resolve, reject) => {
+                request.signal.addEventListener('abort', () => reject(request.signal.reason));
+            });
+        };
+
+        const complete = post('/complete', { sessionId });
+        await analysisStarted;
+        await post('/leave', { sessionId });
+        assert.equal((await complete).status, 409);
+        assert.equal(getSession(sessionId)!.phase, finishedIn);
+
+        mockProvider.send = scriptedSend;
+        const retried = await post<CompleteResponse>('/complete', { sessionId });
+        assert.equal(retried.status, 200);
+        assert.ok(retried.body.analysis);
+        assert.equal(getSession(sessionId)!.phase, 'completed');
+    });
+});
+
+describe('prompt pins', () => {
+    after(() => {
+        delete process.env.PROMPT_PINS;
+        loadPromptTemplates();
+    });
+
+    it('scores with the plain score a pre-rubric evaluator and code reviewer prompt asks for', async () => {
+        process.env.PROMPT_PINS = 'evaluator.answer=v1,code-reviewer.review=v1';
+        loadPromptTemplates();
+
+        const start = await post<StartResponse>('/start', {});
+        assert.equal(start.status, 200);
+        const { sessionId } = start.body;
+
+        let question: QuestionBody | null = start.body.question;
+        while (question?.type === 'video') {
+            const answered: Reply<AnswerResponse> = await post('/answer', {
+                sessionId,
+                questionId: question.id,
+                skipped: false,
+                transcript: 'Because the effect re-runs whenever a dependency changes, the cleanup runs first so that subscriptions and timers from the previous render are released before new ones are created, and once more on unmount.',
+            });
+            assert.equal(answered.status, 200);
+            assert.ok(answered.body.evaluation);
+            assert.ok(answered.body.evaluation.score > 0, 'the agent score is used, not the fallback');
+            assert.equal(answered.body.evaluation.promptVersion, 'evaluator.answer@v1');
+            assert.equal(answered.body.evaluation.criteria, undefined);
+            question = answered.body.nextQuestion;
+        }
+
+        assert.ok(question, 'the interview ends with a coding question');
+        const reviewed = await post<SubmitCodeResponse>('/submit-code', {
+            sessionId,
+            questionId: question.id,
+            language: 'javascript',
+            code: 'function debounce(fn, ms) {\n  let timer;\n  return (...args) => {\n    clearTimeout(timer);\n    timer = setTimeout(() => fn(...args), ms);\n  };\n}',
+        });
+        assert.equal(reviewed.status, 200);
+        assert.ok(reviewed.body.review.score > 0, 'the agent score is used, not the fallback');
+        assert.equal(reviewed.body.review.promptVersion, 'code-reviewer.review@v1');
+        assert.ok(getTrace(sessionId).every(entry => !entry.fallbackUsed));
+    });
+});
+
+describe('follow-ups', () => {
+    const followUpCalls = (sessionId: string) =>
+        getTrace(sessionId).filter(entry => entry.promptVersion?.startsWith('interviewer.follow-up')).length;
+
+    it('only asks the interviewer about a follow-up when the score is neither clearly high nor low', async () => {
+        const start = await post<StartResponse>('/start', {});
+        const { sessionId } = start.body;
+
+        // Scored clearly low: out of the candidate's depth, moves straight on
+        const low = await post<AnswerResponse>('/answer', { sessionId, questionId: start.body.question.id, skipped: false, transcript: 'No idea, sorry.' });
+        assert.equal(low.status, 200);
+        assert.ok(low.body.evaluation && low.body.nextQuestion);
+        assert.ok(low.body.evaluation.score < 40);
+        assert.equal(low.body.nextQuestion.parentId, undefined);
+        assert.equal(followUpCalls(sessionId), 0);
+
+        // Scored in between: probed, and the score stays internal until the thread is done
+        const second = low.body.nextQuestion;
+        const middle = await post<AnswerResponse>('/answer', { sessionId, questionId: second.id, skipped: false, transcript: 'It runs before the next effect and when the component unmounts.' });
+        assert.equal(middle.status, 200);
+        assert.equal(middle.body.evaluation, null);
+        assert.ok(middle.body.nextQuestion);
+        assert.equal(middle.body.nextQuestion.parentId, second.id);
+        assert.equal(followUpCalls(sessionId), 1);
+
+        // The follow-up's answer is scored together with the question's
+        const followUp = await post<AnswerResponse>('/answer', {
+            sessionId,
+            questionId: middle.body.nextQuestion.id,
+            skipped: false,
+            transcript: 'Say a chat widget subscribes to a socket in an effect: without the cleanup every re-render with a new room id would add another listener, so messages arrive twice and the old sockets leak until the page is closed.',
+        });
+        assert.equal(followUp.status, 200);
+        assert.ok(followUp.body.evaluation && followUp.body.nextQuestion);
+        assert.equal(followUp.body.nextQuestion.parentId, undefined);
+        const scored = getSession(sessionId)!.questions.find(q => q.id === second.id)!.evaluation!;
+        assert.equal(followUp.body.evaluation.score, scored.score);
+        assert.match(scored.brief, /72\/100/, 'both answers are scored');
+        assert.equal(followUpCalls(sessionId), 1, 'no follow-ups left: the interviewer is not asked again');
+    });
+});
+
+describe('GET /session/:id', () => {
+    it('hands the candidate no rubrics or scores while the interview is running', async () => {
+        const start = await post<StartResponse>('/start', {});
+        const { sessionId, question } = start.body;
+        await post('/answer', { sessionId, questionId: question.id, skipped: false, transcript: 'No idea, sorry.' });
+
+        const res = await get<SessionResponse>(`/session/${sessionId}`);
+        assert.equal(res.status, 200);
+        const { session, allowedActions } = res.body;
+        assert.equal(session.phase, 'video');
+        assert.deepEqual(allowedActions, ['answer', 'leave'], 'complete waits for the rest of the questions');
+        assert.equal(session.questions[0].answer, 'No idea, sorry.');
+        for (const q of session.questions) {
+            assert.equal(q.rubric, undefined);
+            assert.equal(q.evaluation, undefined);
+        }
+        assert.equal(session.currentDifficulty, undefined);
+        assert.equal(session.usage, undefined);
+
+        // The agent trace and event log show the scores: admins only
+        assert.equal((await fetch(`${baseUrl}/api/interview/session/${sessionId}/trace`)).status, 403);
+        assert.equal((await fetch(`${baseUrl}/api/interview/session/${sessionId}/events`)).status, 403);
+    });
+});
@@ -7,138 +7,379 @@ import { sendToAgent, sendContextToAgent, parseAgentJSON } from '../services/arc
 import {
     createSession,
     getSession,
+    getSessionAt,
+    getSessionEvents,
     addQuestion,
     recordAnswer,
     recordEvaluation,
     recordCodeReview,
     completeSession,
-    updateSession,
-    buildInterviewContext,
+    startAnalysis,
+    cancelAnalysis,
     getLowerDifficulty,
+    SessionConflictError,
     type Difficulty,
+    type InterviewSession,
     type QuestionRecord,
 } from '../services/sessionManager.js';
+import { getEvaluatorEnsemble } from '../services/agents.js';
+import { resolveAgent } from '../services/agentRegistry.js';
+import {
+    interviewerDeltaSchema,
+    followUpDeltaSchema,
+    evaluatorDeltaSchemaFor,
+    codeReviewerDeltaSchemaFor,
+} from '../services/agentSchemas.js';
+import {
+    applyInterviewerDelta,
+    applyFollowUpDelta,
+    applyEvaluatorDelta,
+    applyCodeReviewerDelta,
+    type OwnedEvaluation,
+} from '../services/agentDeltas.js';
+import { AgentCallCancelledError, cancelAgentCalls, endConversations } from '../services/conversations.js';
+import { renderPrompt } from '../services/promptRegistry.js';
+import { getTrace, recordFallback } from '../services/agentTrace.js';
+import { evaluateWithEnsemble } from '../services/evaluatorEnsemble.js';
+import { generateAnalysis } from '../services/analysis.js';
+import { idempotent } from '../services/idempotency.js';
+import { requireAdmin } from '../services/adminAuth.js';
+import { describeReference, pickBankQuestion, questionFromBank } from '../services/questionBank.js';
+import { getFollowUpsLeft, getPlannedQuestions, getThreadRoot, isWorthProbing } from '../services/followUps.js';
+import { getScoringRubric } from '../services/rubrics.js';
+import { isBookkeeping } from '../services/sessionEvents.js';
+import {
+    getDefaultTemplateId,
+    getNextSection,
+    getTemplate,
+    getTotalQuestions,
+    listTemplates,
+} from '../services/interviewTemplates.js';
+import {
+    getDefaultCompany,
+    getDefaultProfileId,
+    listRoleProfiles,
+    resolveRoleProfile,
+    roleVariables,
+    topicsFor,
+} from '../services/roleProfiles.js';
+import {
+    ACTION_PHASES,
+    PHASE_TRANSITIONS,
+    getActionViolation,
+    getAllowedActions,
+    isEnded,
+    type InterviewAction,
+} from '../services/interviewPhases.js';
 
 export const interviewRouter = Router();
 
-// Agent IDs from environment (lazy to ensure dotenv has loaded)
-function getAgents() {
-    return {
-        interviewer: process.env.INTERVIEWER_AGENT_ID || '',
-        evaluator: process.env.EVALUATOR_AGENT_ID || '',
-        codeReviewer: process.env.CODE_REVIEWER_AGENT_ID || '',
-        analyst: process.env.ANALYST_AGENT_ID || '',
-    };
+// Illegal phase transitions (answering after /complete, code for a video
+// question, completing with nothing answered...) are a 409, not a 500
+function rejectIllegalAction(
+    session: InterviewSession,
+    action: InterviewAction,
+    res: Response,
+    questionId?: number
+): boolean {
+    const violation = getActionViolation(session, action, questionId);
+    if (!violation) return false;
+    res.status(409).json({ error: violation, phase: session.phase, allowedPhases: ACTION_PHASES[action] });
+    return true;
 }
 
-// ─── Types ──────────────────────────────────────────────
+// A concurrent change won the race (the client should reload and retry), or
+// the candidate left while an agent was working: nothing more was recorded
+function errorStatus(error: unknown): number {
+    return error instanceof SessionConflictError || error instanceof AgentCallCancelledError ? 409 : 500;
+}
 
-interface InterviewerResponse {
-    type: 'video' | 'code';
-    text: string;
-    title?: string;
-    difficulty: Difficulty;
-    starterCode?: string;
-    language?: string;
+// Failures the interview must not paper over with a fallback
+function isFatal(error: unknown): boolean {
+    return error instanceof SessionConflictError || error instanceof AgentCallCancelledError;
 }
 
-interface EvaluatorResponse {
-    score: number;
-    maxScore: number;
-    difficulty: Difficulty;
-    nextDifficulty: Difficulty;
-    strengths: string[];
-    weaknesses: string[];
-    brief: string;
+/**
+ * Add the question the template plans next, taken from where the session
+ * gets its questions: the bank directly, or the Interviewer Agent (with a bank
+ * question to adapt in "seeded" mode), falling back to the bank.
+ * Returns undefined once every question was asked.
+ */
+async function askNextQuestion(session: InterviewSession): Promise<QuestionRecord | undefined> {
+    const section = getNextSection(session);
+    if (!section) return undefined;
+
+    if (session.questionSource === 'bank') {
+        const question = addQuestion(session.id, questionFromBank(session, section));
+        console.log(`  ✓ ${section.type} question for section "${section.id}" taken from the bank (${question.bankId ?? 'stock'})`);
+        return question;
+    }
+
+    const seed = session.questionSource === 'seeded' ? pickBankQuestion(session, section) : undefined;
+    const interviewer = resolveAgent('interviewer', session);
+    const promptId = section.type === 'code' ? 'interviewer.coding-question'
+        : session.questions.length === 0 ? 'interviewer.first-question'
+        : 'interviewer.next-question';
+    const prompt = renderPrompt(promptId, {
+        ...roleVariables(session),
+        difficulty: session.currentDifficulty,
+        section: section.name,
+        topics: topicsFor(session, section).join(', '),
+        seed: seed
+            ? `Adapt this question from the question bank to the role and the conversation so far, keeping its core idea: "${seed.title}: ${seed.text}"`
+            : 'Write a new question.',
+    }, interviewer.prompts?.[promptId]);
+
+    console.log(`  → Generating ${section.type} question for section "${section.id}"${seed ? ` from bank question ${seed.id}` : ''}...`);
+
+    try {
+        const baseVersion = session.version;
+        const delta = await sendContextToAgent(
+            interviewer,
+            session,
+            prompt.text,
+            interviewerDeltaSchema,
+            { promptVersion: prompt.promptVersion }
+        );
+
+        const question = applyInterviewerDelta(session.id, delta, prompt.promptVersion, baseVersion, seed?.id);
+        console.log(`  ✓ Question generated via Agent Context`);
+        return question;
+    } catch (err) {
+        if (isFatal(err)) throw err;
+        console.warn('  ⚠ Interviewer failed, using a question from the bank');
+        recordFallback(session.id, interviewer, (err as Error).message);
+        return addQuestion(session.id, questionFromBank(session, section));
+    }
 }
 
-interface CodeReviewResponse {
-    score: number;
-    maxScore: number;
-    correctness: boolean;
-    timeComplexity: string;
-    spaceComplexity: string;
-    strengths: string[];
-    issues: string[];
-    brief: string;
+/**
+ * Ask the Interviewer Agent whether the answers so far on `root` call for a
+ * follow-up. Returns undefined when they do not, when the question has no
+ * follow-ups left, when its score so far is clearly high or low (without
+ * asking), or when the interviewer fails (the interview moves on).
+ * Sessions taking their questions from the bank are not probed.
+ */
+async function askFollowUp(session: InterviewSession, root: QuestionRecord): Promise<QuestionRecord | undefined> {
+    const followUpsLeft = getFollowUpsLeft(session, root);
+    if (followUpsLeft === 0 || session.questionSource === 'bank' || !isWorthProbing(root)) return undefined;
+
+    const interviewer = resolveAgent('interviewer', session);
+    const prompt = renderPrompt('interviewer.follow-up', {
+        ...roleVariables(session),
+        questionId: root.id,
+        followUpsLeft,
+    }, interviewer.prompts?.['interviewer.follow-up']);
+
+    console.log(`  → Asking whether Q${root.id} needs a follow-up (${followUpsLeft} left)...`);
+
+    try {
+        const baseVersion = session.version;
+        const delta = await sendContextToAgent(
+            interviewer,
+            session,
+            prompt.text,
+            followUpDeltaSchema,
+            { focusQuestionId: root.id, promptVersion: prompt.promptVersion }
+        );
+
+        const followUp = applyFollowUpDelta(session.id, root.id, delta, prompt.promptVersion, baseVersion);
+        console.log(followUp ? `  ✓ Follow-up Q${followUp.id} asked on Q${root.id}` : '  ✓ No follow-up needed');
+        return followUp;
+    } catch (err) {
+        if (isFatal(err)) throw err;
+        console.warn('  ⚠ Interviewer failed, moving on without a follow-up');
+        recordFallback(session.id, interviewer, (err as Error).message);
+        return undefined;
+    }
 }
 
-// ─── POST /api/interview/start ──────────────────────────
-// Creates a session and asks the Interviewer Agent for the first question
+/**
+ * Score a video question together with its follow-ups. `answeredId` is the
+ * question just answered (the root or one of its follow-ups). A failed
+ * evaluator gets a 0-score fallback evaluation.
+ */
+async function evaluateThread(session: InterviewSession, root: QuestionRecord, answeredId = root.id): Promise<void> {
+    const sessionId = session.id;
+    console.log(`\n📝 Evaluating answer for Q${root.id}${root.id !== answeredId ? ' and its follow-ups' : ''}...`);
+    const evaluator = resolveAgent('evaluator', session);
+    const prompt = renderPrompt('evaluator.answer', {
+        ...roleVariables(session),
+        questionId: root.id,
+    }, evaluator.prompts?.['evaluator.answer']);
+    const ensemble = getEvaluatorEnsemble(evaluator);
+    const baseVersion = session.version;
+    try {
+        if (ensemble.length > 1) {
+            await evaluateWithEnsemble(session, root.id, ensemble, prompt);
+        } else {
+            const delta = await sendContextToAgent(
+                ensemble[0],
+                session,
+                prompt.text,
+                evaluatorDeltaSchemaFor(getScoringRubric(root, prompt.promptVersion)),
+                { focusQuestionId: root.id, promptVersion: prompt.promptVersion }
+            );
+            applyEvaluatorDelta(sessionId, root.id, delta, prompt.promptVersion, baseVersion);
+        }
+        console.log(`  ✓ Evaluation recorded via Agent Context`);
+    } catch (err) {
+        if (isFatal(err)) throw err;
+        console.warn('  ⚠ Evaluator failed, using fallback');
+        recordFallback(sessionId, evaluator, (err as Error).message);
+        recordEvaluation(sessionId, root.id, {
+            score: 0,
+            nextDifficulty: session.currentDifficulty,
+            strengths: [],
+            weaknesses: ['AI evaluation unavailable'],
+            brief: 'Evaluation could not be completed.',
+        });
+    }
+}
 
-interviewRouter.post('/start', async (req: Request, res: Response) => {
+/**
+ * Have the Code Reviewer Agent review a submitted code answer. Empty code
+ * scores 0 without a call; a failed reviewer gets a 0-score fallback review.
+ */
+async function reviewCode(session: InterviewSession, codeQ: QuestionRecord): Promise<void> {
+    const sessionId = session.id;
+    const questionId = codeQ.id;
+    const code = codeQ.answer;
+    const isEmptyCode = !code || code.trim().length < 10 || code.trim() === '// Write your solution here';
+
+    if (isEmptyCode) {
+        console.warn('  ⚠ Empty code submitted');
+        const emptyReview: QuestionRecord['codeReview'] = {
+            score: 0,
+            correctness: false,
+            timeComplexity: 'N/A',
+            spaceComplexity: 'N/A',
+            strengths: [],
+            issues: ['No code was submitted'],
+            brief: 'Candidate did not submit any code.',
+        };
+        recordCodeReview(sessionId, questionId, emptyReview);
+        return;
+    }
+
+    const codeReviewer = resolveAgent('codeReviewer', session);
+    const prompt = renderPrompt('code-reviewer.review', {
+        role: session.role,
+        company: session.company,
+        questionId,
+        reference: describeReference(codeQ),
+    }, codeReviewer.prompts?.['code-reviewer.review']);
     try {
-        const { role = 'Senior Frontend Engineer', company = 'Nebula Systems' } = req.body;
+        const baseVersion = session.version;
+        const delta = await sendContextToAgent(
+            codeReviewer,
+            session,
+            prompt.text,
+            codeReviewerDeltaSchemaFor(getScoringRubric(codeQ, prompt.promptVersion)),
+            { focusQuestionId: questionId, promptVersion: prompt.promptVersion }
+        );
+
+        applyCodeReviewerDelta(sessionId, questionId, delta, prompt.promptVersion, baseVersion);
+        console.log(`  ✓ Code review recorded via Agent Context`);
+    } catch (err) {
+        if (isFatal(err)) throw err;
+        console.warn('  ⚠ Code Reviewer failed, using fallback');
+        recordFallback(sessionId, codeReviewer, (err as Error).message);
+        recordCodeReview(sessionId, questionId, {
+            score: 0,
+            correctness: false,
+            timeComplexity: 'N/A',
+            spaceComplexity: 'N/A',
+            strengths: [],
+            issues: ['AI code review unavailable'],
+            brief: 'Code review could not be completed.',
+        });
+    }
+}
 
-        console.log(`\n🎬 Starting interview: ${role} @ ${company}`);
+/**
+ * The answer a cancelled /answer or /submit-code recorded but never scored:
+ * the last answer, if nothing was written to the session after it.
+ */
+function getUnscoredAnswer(session: InterviewSession): QuestionRecord | undefined {
+    const changes = (getSessionEvents(session.id) ?? []).filter(event => !isBookkeeping(event));
+    const last = changes[changes.length - 1];
+    if (last?.type !== 'answer-recorded') return undefined;
+    return session.questions.find(q => q.id === last.questionId);
+}
 
-        // Create session
-        let session = createSession(role, company);
+/** What the frontend needs to lay out the progress bar */
+function outlineOf(session: InterviewSession) {
+    return session.sections.map(({ id, name, type, count, timeLimitSeconds }) => ({ id, name, type, count, timeLimitSeconds }));
+}
 
-        // Ask Interviewer Agent for first question (medium difficulty)
-        const instruction = `
-You are initializing the interview.
-1. Generate the first technical question (Difficulty: medium, Type: video).
-2. The question text should cover React topics (hooks, state, etc).
-3. Return the FULL updated session object with this new question added to the "questions" array.
-4. Ensure "currentQuestionIndex" is set to 1.
-`;
+// Question fields sent to the candidate (no rubric, answer or scores),
+// with the time its section allows
+function publicQuestion(session: InterviewSession, question: QuestionRecord) {
+    const { id, type, text, title, difficulty, starterCode, language, section, parentId } = question;
+    const timeLimitSeconds = session.sections.find(s => s.id === section)?.timeLimitSeconds;
+    return { id, type, text, title, difficulty, starterCode, language, section, parentId, timeLimitSeconds };
+}
 
-        try {
-            const updatedSession = await sendContextToAgent<any>(
-                getAgents().interviewer,
-                session as unknown as Record<string, unknown>,
-                instruction
-            );
+// The session as the candidate may see it: public questions with their
+// answers, and no scores (evaluations, reviews, adapted difficulty, report)
+// until the interview has ended
+function publicSession(session: InterviewSession) {
+    const ended = isEnded(session.phase);
+    const { id, role, company, template, phase, startedAt, lastActivityAt, completedAt } = session;
+    return {
+        id, role, company, template, phase, startedAt, lastActivityAt, completedAt,
+        sections: outlineOf(session),
+        questions: session.questions.map(question => ({
+            ...publicQuestion(session, question),
+            answer: question.answer,
+            ...(ended ? { evaluation: question.evaluation, codeReview: question.codeReview } : {}),
+        })),
+        ...(ended ? { currentDifficulty: session.currentDifficulty, analysis: session.analysis } : {}),
+    };
+}
 
-            // Update local session store
-            if (updatedSession && updatedSession.questions) {
-                // If agent returned a valid session-like object
-                updateSession(session.id, updatedSession);
-                session = getSession(session.id)!;
-                console.log(`  ✓ First question generated via Agent Context`);
-            } else {
-                throw new Error('Invalid agent response format');
-            }
+// ─── POST /api/interview/start ──────────────────────────
+// Creates a session and asks the Interviewer Agent for the first question
 
-        } catch (err) {
-            console.warn('  ⚠ Interviewer returned invalid context, using fallback question');
-            // Fallback logic
-            addQuestion(session.id, {
-                type: 'video',
-                text: 'Can you explain the difference between useState and useReducer in React? When would you choose one over the other?',
-                title: 'React State Management',
-                difficulty: 'medium',
-            });
-            session = getSession(session.id)!;
+interviewRouter.post('/start', async (req: Request, res: Response) => {
+    try {
+        const { role, company = getDefaultCompany(), template: templateId } = req.body;
+
+        const template = getTemplate(templateId);
+        if (!template) {
+            res.status(400).json({ error: `Unknown interview template "${templateId}"` });
+            return;
         }
 
-        const currentQ = session.questions[session.questions.length - 1];
+        // A profile id, a free-text role or nothing (the default profile)
+        const { title, profile } = resolveRoleProfile(role);
+        console.log(`\n🎬 Starting interview: ${title} @ ${company} (${template.name})`);
+
+        // Create session and ask for the first question
+        const session = createSession(title, company, profile, template);
+        const question = (await askNextQuestion(session))!;
 
         res.json({
             sessionId: session.id,
-            question: {
-                id: currentQ.id,
-                type: currentQ.type,
-                text: currentQ.text,
-                title: currentQ.title,
-                difficulty: currentQ.difficulty,
-                starterCode: currentQ.starterCode,
-                language: currentQ.language,
-            },
-            totalQuestions: session.totalVideoQuestions + 1, // +1 for coding
-            currentQuestion: session.questions.length,
+            role: session.role,
+            company: session.company,
+            question: publicQuestion(session, question),
+            sections: outlineOf(session),
+            totalQuestions: getTotalQuestions(session),
+            currentQuestion: getPlannedQuestions(session).length,
         });
     } catch (error) {
         console.error('❌ Start error:', error);
-        res.status(500).json({ error: (error as Error).message });
+        res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
 });
 
 // ─── POST /api/interview/answer ─────────────────────────
-// Evaluates the answer, then asks for the next question (or coding Q)
+// Evaluates the question (with its follow-ups), then asks a follow-up on it
+// or the next question (or coding Q)
 
-interviewRouter.post('/answer', async (req: Request, res: Response) => {
+interviewRouter.post('/answer', idempotent('answer'), async (req: Request, res: Response) => {
     try {
         const { sessionId, questionId, transcript, skipped } = req.body;
 
@@ -156,6 +397,7 @@ interviewRouter.post('/answer', async (req: Request, res: Response) => {
             res.status(404).json({ error: 'Session not found' });
             return;
         }
+        if (rejectIllegalAction(session, 'answer', res, questionId)) return;
 
         const currentQ = session.questions.find(q => q.id === questionId);
         if (!currentQ) {
@@ -167,15 +409,16 @@ interviewRouter.post('/answer', async (req: Request, res: Response) => {
         recordAnswer(sessionId, questionId, skipped ? '' : transcript, skipped);
         session = getSession(sessionId)!; // Refresh local reference
 
-        // 2. Evaluator Step
-        if (skipped) {
+        // 2. Evaluator Step: the question is scored with its follow-ups so far
+        const root = getThreadRoot(session, currentQ);
+        if (skipped && root.id === questionId) {
             console.log(`\n⏭ Question Q${questionId} skipped.`);
 
             const newDifficulty = getLowerDifficulty(session.currentDifficulty);
             console.log(`   - Lowering difficulty: ${session.currentDifficulty} -> ${newDifficulty}`);
 
             // Mock evaluation for skipped
-            const skippedEval: EvaluatorResponse = {
+            const skippedEval: OwnedEvaluation = {
                 score: 0,
                 maxScore: 100,
                 difficulty: session.currentDifficulty,
@@ -186,112 +429,45 @@ interviewRouter.post('/answer', async (req: Request, res: Response) => {
             };
             recordEvaluation(sessionId, questionId, skippedEval);
         } else {
-            console.log(`\n📝 Evaluating answer for Q${questionId}...`);
-            const evalInstruction = `
-You are the Evaluator.
-1. Review the latest answer in the session (Question ID: ${questionId}).
-2. Update the session by adding an "evaluation" object to that question.
-3. Update "currentDifficulty" based on performance.
-4. Return the FULL updated session JSON.
-`;
-            try {
-                const updatedSession = await sendContextToAgent<any>(
-                    getAgents().evaluator,
-                    session as unknown as Record<string, unknown>,
-                    evalInstruction
-                );
-
-                if (updatedSession && updatedSession.questions) {
-                    updateSession(sessionId, updatedSession);
-                    session = getSession(sessionId)!;
-                    console.log(`  ✓ Evaluation recorded via Agent Context`);
-                }
-            } catch (err) {
-                console.warn('  ⚠ Evaluator failed, using fallback');
-                recordEvaluation(sessionId, questionId, {
-                    score: 0,
-                    nextDifficulty: session.currentDifficulty,
-                    strengths: [],
-                    weaknesses: ['AI evaluation unavailable'],
-                    brief: 'Evaluation could not be completed.',
-                });
-            }
+            // A skipped follow-up ends the thread; what was said before still counts
+            await evaluateThread(session, root, questionId);
         }
         session = getSession(sessionId)!; // Refresh
 
-        // 3. Interviewer Step (Next Question)
-        const completedQuestions = session.questions.filter(q => q.type === 'video').length;
-        const isLastVideoQ = completedQuestions >= session.totalVideoQuestions;
-
-        const nextInstruction = isLastVideoQ
-            ? `
-You are the Interviewer.
-1. The candidate has completed the video section.
-2. Generate a "code" type question (React JS coding challenge).
-3. Add it to the "questions" array.
-4. Increment "currentQuestionIndex".
-5. Return the FULL updated session JSON.
-`
-            : `
-You are the Interviewer.
-1. Generate the NEXT video question (React JS) based on the current difficulty (${session.currentDifficulty}).
-2. It must be different from previous questions.
-3. Add it to the "questions" array.
-4. Increment "currentQuestionIndex".
-5. Return the FULL updated session JSON.
-`;
-
-        console.log(`  → Generating next question (isLastVideo=${isLastVideoQ})...`);
-
-        try {
-            const updatedSession = await sendContextToAgent<any>(
-                getAgents().interviewer,
-                session as unknown as Record<string, unknown>,
-                nextInstruction
-            );
-
-            if (updatedSession && updatedSession.questions) {
-                updateSession(sessionId, updatedSession);
-                session = getSession(sessionId)!;
-                console.log(`  ✓ Next question generated via Agent Context`);
-            }
-        } catch (err) {
-            console.warn('  ⚠ Interviewer failed, using fallback');
-            // Fallback logic
-            if (isLastVideoQ) {
-                addQuestion(sessionId, {
-                    type: 'code',
-                    text: 'Create a custom React hook called useDebounce...',
-                    title: 'Custom useDebounce Hook',
-                    difficulty: session.currentDifficulty,
-                    starterCode: '// Write your solution here\n',
-                    language: 'javascript',
-                });
-            } else {
-                addQuestion(sessionId, {
-                    type: 'video',
-                    text: 'What are React keys and why are they important?',
-                    title: 'React Keys',
-                    difficulty: session.currentDifficulty,
+        // 3. Follow-up Step: the interviewer may probe the answer further. The
+        // score so far stays internal; the thread is scored again once answered
+        if (!skipped) {
+            const followUp = await askFollowUp(session, session.questions.find(q => q.id === root.id)!);
+            session = getSession(sessionId)!;
+            if (followUp) {
+                res.json({
+                    evaluation: null,
+                    nextQuestion: publicQuestion(session, followUp),
+                    isLastVideoQuestion: false,
+                    currentQuestion: getPlannedQuestions(session).length,
+                    totalQuestions: getTotalQuestions(session),
                 });
+                return;
             }
-            session = getSession(sessionId)!;
         }
 
-        const nextQ = session.questions[session.questions.length - 1];
-        const currentEval = session.questions.find(q => q.id === questionId)?.evaluation;
+        // 4. Interviewer Step (next question in the template, if any)
+        const isLastVideoQ = getNextSection(session)?.type !== 'video';
+        const nextQ = await askNextQuestion(session);
+        session = getSession(sessionId)!;
+        const currentEval = session.questions.find(q => q.id === root.id)?.evaluation;
 
         res.json({
             evaluation: currentEval,
-            nextQuestion: nextQ.id !== questionId ? nextQ : null,
+            nextQuestion: nextQ ? publicQuestion(session, nextQ) : null,
             isLastVideoQuestion: isLastVideoQ,
-            currentQuestion: session.questions.length,
-            totalQuestions: session.totalVideoQuestions + 1,
+            currentQuestion: getPlannedQuestions(session).length,
+            totalQuestions: getTotalQuestions(session),
         });
 
     } catch (error) {
         console.error('❌ Answer error:', error);
-        res.status(500).json({ error: (error as Error).message });
+        res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
 });
 
@@ -301,7 +477,7 @@ You are the Interviewer.
 // ─── POST /api/interview/submit-code ────────────────────
 // Sends code to the Code Reviewer Agent
 
-interviewRouter.post('/submit-code', async (req: Request, res: Response) => {
+interviewRouter.post('/submit-code', idempotent('submit-code'), async (req: Request, res: Response) => {
     try {
         const { sessionId, questionId, code, language } = req.body;
 
@@ -315,6 +491,7 @@ interviewRouter.post('/submit-code', async (req: Request, res: Response) => {
             res.status(404).json({ error: 'Session not found' });
             return;
         }
+        if (rejectIllegalAction(session, 'submit-code', res, questionId)) return;
 
         const codeQ = session.questions.find(q => q.id === questionId);
         if (!codeQ) {
@@ -329,70 +506,73 @@ interviewRouter.post('/submit-code', async (req: Request, res: Response) => {
         session = getSession(sessionId)!;
 
         // 2. Call Code Reviewer
-        const isEmptyCode = !code || code.trim().length < 10 || code.trim() === '// Write your solution here';
-
-        if (isEmptyCode) {
-            console.warn('  ⚠ Empty code submitted');
-            const emptyReview: QuestionRecord['codeReview'] = {
-                score: 0,
-                correctness: false,
-                timeComplexity: 'N/A',
-                spaceComplexity: 'N/A',
-                strengths: [],
-                issues: ['No code was submitted'],
-                brief: 'Candidate did not submit any code.',
-            };
-            recordCodeReview(sessionId, questionId, emptyReview);
-        } else {
-            const reviewInstruction = `
-You are the Code Reviewer.
-1. Review the code answer for Question ID ${questionId}.
-2. Update the session by adding a "codeReview" object to that question.
-3. Return the FULL updated session JSON.
-`;
-            try {
-                const updatedSession = await sendContextToAgent<any>(
-                    getAgents().codeReviewer,
-                    session as unknown as Record<string, unknown>,
-                    reviewInstruction
-                );
-
-                if (updatedSession && updatedSession.questions) {
-                    updateSession(sessionId, updatedSession);
-                    session = getSession(sessionId)!;
-                    console.log(`  ✓ Code review recorded via Agent Context`);
-                }
-            } catch (err) {
-                console.warn('  ⚠ Code Reviewer failed, using fallback');
-                recordCodeReview(sessionId, questionId, {
-                    score: 0,
-                    correctness: false,
-                    timeComplexity: 'N/A',
-                    spaceComplexity: 'N/A',
-                    strengths: [],
-                    issues: ['AI code review unavailable'],
-                    brief: 'Code review could not be completed.',
-                });
-            }
-        }
+        await reviewCode(session, session.questions.find(q => q.id === questionId)!);
 
+        // 3. The next question in the template (video or code), if any
+        session = getSession(sessionId)!;
+        const isLastVideoQ = getNextSection(session)?.type !== 'video';
+        const nextQ = await askNextQuestion(session);
         session = getSession(sessionId)!;
         const review = session.questions.find(q => q.id === questionId)?.codeReview;
 
-        res.json({ review });
+        res.json({
+            review,
+            nextQuestion: nextQ ? publicQuestion(session, nextQ) : null,
+            isLastVideoQuestion: isLastVideoQ,
+            currentQuestion: getPlannedQuestions(session).length,
+            totalQuestions: getTotalQuestions(session),
+        });
     } catch (error) {
         console.error('❌ Code review error:', error);
-        res.status(500).json({ error: (error as Error).message });
+        res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
 });
 
-// ─── POST /api/interview/complete ───────────────────────
-// Sends all interview data to the Analyst Agent for final report
+// ─── POST /api/interview/resume ─────────────────────────
+// A refresh cancelled /answer or /submit-code before it asked the next
+// question: scores the answer it left behind, then asks that question
+
+interviewRouter.post('/resume', idempotent('resume'), async (req: Request, res: Response) => {
+    try {
+        const { sessionId } = req.body;
+
+        if (!sessionId) {
+            res.status(400).json({ error: 'sessionId is required' });
+            return;
+        }
+
+        let session = getSession(sessionId);
+        if (!session) {
+            res.status(404).json({ error: 'Session not found' });
+            return;
+        }
+        if (rejectIllegalAction(session, 'resume', res)) return;
+
+        console.log(`\n🔁 Resuming session ${sessionId}`);
+
+        const unscored = getUnscoredAnswer(session);
+        if (unscored?.type === 'code') await reviewCode(session, unscored);
+        else if (unscored) await evaluateThread(session, getThreadRoot(session, unscored), unscored.id);
+        session = getSession(sessionId)!;
+
+        const nextQ = (await askNextQuestion(session))!;
+        session = getSession(sessionId)!;
+
+        res.json({
+            question: publicQuestion(session, nextQ),
+            currentQuestion: getPlannedQuestions(session).length,
+            totalQuestions: getTotalQuestions(session),
+        });
+    } catch (error) {
+        console.error('❌ Resume error:', error);
+        res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+});
 
 // ─── POST /api/interview/complete ───────────────────────
 // Sends all interview data to the Analyst Agent for final report
 
-interviewRouter.post('/complete', async (req: Request, res: Response) => {
+interviewRouter.post('/complete', idempotent('complete'), async (req: Request, res: Response) => {
     try {
         const { sessionId } = req.body;
 
@@ -406,97 +586,102 @@ interviewRouter.post('/complete', async (req: Request, res: Response) => {
             res.status(404).json({ error: 'Session not found' });
             return;
         }
+        // A refreshed completion page asks again: hand back the report it already has
+        if (session.phase === 'completed' && session.analysis) {
+            res.json({ analysis: session.analysis });
+            return;
+        }
+        if (rejectIllegalAction(session, 'complete', res)) return;
 
         console.log(`\n📊 Generating final analysis for session ${sessionId}`);
 
-        // Calculate duration outside the agent to ensure accuracy
-        const startTime = new Date(session.startedAt);
-        const endTime = new Date();
-        const durationMs = endTime.getTime() - startTime.getTime();
-        const minutes = Math.floor(durationMs / 60000);
-        const seconds = Math.floor((durationMs % 60000) / 1000);
-        const totalTime = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-
-        const analysisInstruction = `
-You are the Analyst.
-1. Review the full interview session.
-2. Generate a comprehensive "analysis" object.
-3. Include: overallScore, recommendation, summary, skillScores, questionResults, feedback.
-4. Ensure "totalTime" is set to "${totalTime}".
-5. Update the session by adding this "analysis" object.
-6. Return the FULL updated session JSON.
-`;
-
+        // complete is only allowed in video and coding
+        const finishedIn = session.phase as 'video' | 'coding';
+        startAnalysis(sessionId);
+        const baseVersion = session.version;
+        let analysis: Record<string, unknown>;
         try {
-            const updatedSession = await sendContextToAgent<any>(
-                getAgents().analyst,
-                session as unknown as Record<string, unknown>,
-                analysisInstruction
-            );
-
-            if (updatedSession && updatedSession.analysis) {
-                // Ensure totalTime is preserved/set if agent missed it
-                if (!updatedSession.analysis.totalTime) {
-                    updatedSession.analysis.totalTime = totalTime;
-                }
-
-                updateSession(sessionId, updatedSession);
-                completeSession(sessionId, updatedSession.analysis); // Marks completedAt
-                session = getSession(sessionId)!;
-                console.log(`  ✓ Analysis generated via Agent Context`);
-            } else {
-                throw new Error('Analyst returned invalid session structure');
-            }
-
+            analysis = await generateAnalysis(session);
         } catch (err) {
-            console.warn('  ⚠ Analyst failed, using fallback');
-            // Fallback logic
-            const scores = session.questions
-                .filter(q => q.evaluation)
-                .map(q => q.evaluation!.score);
-            const avgScore = scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
-            const codeScore = session.questions.find(q => q.codeReview)?.codeReview?.score ?? 0;
-
-            const fallbackAnalysis = {
-                overallScore: Math.round((avgScore + codeScore) / 2),
-                recommendation: avgScore >= 80 ? 'Strong Hire' : avgScore >= 65 ? 'Hire' : avgScore >= 50 ? 'Maybe' : 'No Hire',
-                summary: `Candidate completed the ${session.role} interview. Average question score: ${avgScore}/100. Code challenge score: ${codeScore}/100.`,
-                totalTime: totalTime,
-                skillScores: {
-                    reactFundamentals: avgScore,
-                    problemSolving: codeScore,
-                    technicalDepth: avgScore,
-                    codeQuality: codeScore,
-                    conceptualClarity: avgScore,
-                },
-                questionResults: session.questions.map((q, i) => ({
-                    question: q.title || q.text.substring(0, 80),
-                    score: q.evaluation?.score || q.codeReview?.score || 0,
-                    maxScore: 100,
-                    feedback: q.evaluation?.brief || q.codeReview?.brief || 'Completed',
-                })),
-                feedback: [
-                    ...session.questions.flatMap(q =>
-                        (q.evaluation?.strengths || []).map(s => ({ type: 'strength', text: s }))
-                    ),
-                    ...session.questions.flatMap(q =>
-                        (q.evaluation?.weaknesses || []).map(w => ({ type: 'improvement', text: w }))
-                    ),
-                ],
-            };
-            completeSession(sessionId, fallbackAnalysis);
-            session = getSession(sessionId)!;
+            // Cancelled (/leave): not stuck in analysing, the next /complete retries
+            if (err instanceof AgentCallCancelledError) cancelAnalysis(sessionId, finishedIn);
+            throw err;
         }
+        completeSession(sessionId, analysis, 'completed', baseVersion); // Marks completedAt
+        session = getSession(sessionId)!;
+
+        // Interview is over: drop the per-agent conversations
+        endConversations(sessionId);
 
         res.json({ analysis: session.analysis });
     } catch (error) {
         console.error('❌ Analysis error:', error);
+        res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+});
+
+// ─── POST /api/interview/leave ──────────────────────────
+// Candidate left: cancel any agent calls still running for the session
+
+interviewRouter.post('/leave', (req: Request, res: Response) => {
+    try {
+        const { sessionId } = req.body;
+
+        if (!sessionId) {
+            res.status(400).json({ error: 'sessionId is required' });
+            return;
+        }
+
+        const session = getSession(sessionId);
+        if (!session) {
+            res.status(404).json({ error: 'Session not found' });
+            return;
+        }
+        if (rejectIllegalAction(session, 'leave', res)) return;
+
+        const cancelled = cancelAgentCalls(sessionId);
+        console.log(`\n🚪 Candidate left session ${sessionId} (${cancelled} agent call(s) cancelled)`);
+
+        res.json({ cancelled });
+    } catch (error) {
+        console.error('❌ Leave error:', error);
         res.status(500).json({ error: (error as Error).message });
     }
 });
 
+// ─── GET /api/interview/phases ──────────────────────────
+// The interview state machine, so the frontend checks the same rules
+
+interviewRouter.get('/phases', (_req: Request, res: Response) => {
+    res.json({ transitions: PHASE_TRANSITIONS, actions: ACTION_PHASES });
+});
+
+// ─── GET /api/interview/templates ───────────────────────
+// Interview templates a session can be started from
+
+interviewRouter.get('/templates', (_req: Request, res: Response) => {
+    res.json({
+        default: getDefaultTemplateId(),
+        templates: listTemplates().map(template => ({
+            ...template,
+            totalQuestions: getTotalQuestions(template),
+        })),
+    });
+});
+
+// ─── GET /api/interview/roles ───────────────────────────
+// Role profiles /start accepts by id, and what the lobby shows by default
+
+interviewRouter.get('/roles', (_req: Request, res: Response) => {
+    res.json({
+        default: getDefaultProfileId() ?? null,
+        company: getDefaultCompany(),
+        profiles: listRoleProfiles(),
+    });
+});
+
 // ─── GET /api/interview/session/:id ─────────────────────
-// Get current session state (for debugging/resuming)
+// Get current session state (for resuming after a refresh)
 
 interviewRouter.get('/session/:id', (req: Request, res: Response) => {
     const id = req.params.id as string;
@@ -505,5 +690,66 @@ interviewRouter.get('/session/:id', (req: Request, res: Response) => {
         res.status(404).json({ error: 'Session not found' });
         return;
     }
-    res.json({ session });
+    res.json({
+        session: publicSession(session),
+        totalQuestions: getTotalQuestions(session),
+        // What the candidate can do next ('resume' when a refresh cancelled
+        // the call that would have asked the next question)
+        allowedActions: getAllowedActions(session),
+    });
+});
+
+// ─── GET /api/interview/session/:id/trace ───────────────
+// Timeline of every agent call made for the session (for debugging scores, admin only)
+
+interviewRouter.get('/session/:id/trace', requireAdmin, (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const session = getSession(id);
+    if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+    }
+
+    const timeline = [...getTrace(id)].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    res.json({
+        sessionId: id,
+        totalCalls: timeline.length,
+        fallbacks: timeline.filter(e => e.fallbackUsed).length,
+        usage: session.usage,
+        timeline,
+    });
+});
+
+// ─── GET /api/interview/session/:id/events ──────────────
+// Every recorded change to the session, oldest first (for audits, admin only)
+
+interviewRouter.get('/session/:id/events', requireAdmin, (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const events = getSessionEvents(id);
+    if (!events) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+    }
+
+    res.json({ sessionId: id, totalEvents: events.length, events });
+});
+
+// ─── GET /api/interview/session/:id/events/:seq ─────────
+// The session as it was right after event `seq` (point-in-time replay, admin only)
+
+interviewRouter.get('/session/:id/events/:seq', requireAdmin, (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const seq = Number(req.params.seq);
+    if (!Number.isInteger(seq) || seq < 1) {
+        res.status(400).json({ error: 'Event seq must be a positive integer' });
+        return;
+    }
+
+    const event = getSessionEvents(id)?.find(e => e.seq === seq);
+    if (!event) {
+        res.status(404).json({ error: `Event ${seq} not found for session` });
+        return;
+    }
+
+    res.json({ sessionId: id, event, session: getSessionAt(id, seq) });
 });
@@ -0,0 +1,129 @@
+/**
+ * Question Bank Routes
+ * Create, edit, import and export the curated questions (see questionBank.ts).
+ * Questions carry reference solutions and hidden tests, so every route is
+ * admin-only (see adminAuth.ts).
+ */
+import { Router, Request, Response } from 'express';
+import { requireAdmin } from '../services/adminAuth.js';
+import {
+    QuestionValidationError,
+    createBankQuestion,
+    deleteBankQuestion,
+    exportQuestionBank,
+    getBankQuestion,
+    importQuestionBank,
+    listBankQuestions,
+    updateBankQuestion,
+} from '../services/questionBank.js';
+
+export const questionBankRouter = Router();
+
+questionBankRouter.use(requireAdmin);
+
+// A bad question is the client's mistake: list every problem, not a 500
+function sendError(res: Response, error: unknown, label: string): void {
+    if (error instanceof QuestionValidationError) {
+        res.status(400).json({ error: 'Invalid question', issues: error.issues });
+        return;
+    }
+    console.error(`❌ ${label} error:`, error);
+    res.status(500).json({ error: (error as Error).message });
+}
+
+function queryString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+// ─── GET /api/questions ─────────────────────────────────
+// The bank, optionally filtered by ?type=, ?difficulty= and ?tag=
+
+questionBankRouter.get('/', (req: Request, res: Response) => {
+    try {
+        const questions = listBankQuestions({
+            type: queryString(req.query.type),
+            difficulty: queryString(req.query.difficulty),
+            tag: queryString(req.query.tag),
+        });
+        res.json({ total: questions.length, questions });
+    } catch (error) {
+        sendError(res, error, 'Question list');
+    }
+});
+
+// ─── GET /api/questions/export ──────────────────────────
+// Every question, in the shape /import accepts
+
+questionBankRouter.get('/export', (_req: Request, res: Response) => {
+    try {
+        res.set('Content-Disposition', 'attachment; filename="question-bank.json"');
+        res.json(exportQuestionBank());
+    } catch (error) {
+        sendError(res, error, 'Question export');
+    }
+});
+
+// ─── POST /api/questions/import ─────────────────────────
+// Adds or updates questions by id; ?replace=true also removes the rest.
+// All-or-nothing: one invalid question rejects the whole import.
+
+questionBankRouter.post('/import', (req: Request, res: Response) => {
+    try {
+        const replace = req.query.replace === 'true';
+        const result = importQuestionBank(req.body?.questions, replace);
+        console.log(`\n📚 Question bank import: ${result.created} created, ${result.updated} updated, ${result.deleted} deleted`);
+        res.json(result);
+    } catch (error) {
+        sendError(res, error, 'Question import');
+    }
+});
+
+// ─── GET /api/questions/:id ─────────────────────────────
+
+questionBankRouter.get('/:id', (req: Request, res: Response) => {
+    const question = getBankQuestion(req.params.id as string);
+    if (!question) {
+        res.status(404).json({ error: 'Question not found' });
+        return;
+    }
+    res.json(question);
+});
+
+// ─── POST /api/questions ────────────────────────────────
+
+questionBankRouter.post('/', (req: Request, res: Response) => {
+    try {
+        const question = createBankQuestion(req.body);
+        console.log(`\n📚 Question ${question.id} added to the bank`);
+        res.status(201).json(question);
+    } catch (error) {
+        sendError(res, error, 'Question create');
+    }
+});
+
+// ─── PUT /api/questions/:id ─────────────────────────────
+// Replaces the question's fields (the id and creation time are kept)
+
+questionBankRouter.put('/:id', (req: Request, res: Response) => {
+    try {
+        const question = updateBankQuestion(req.params.id as string, req.body);
+        if (!question) {
+            res.status(404).json({ error: 'Question not found' });
+            return;
+        }
+        res.json(question);
+    } catch (error) {
+        sendError(res, error, 'Question update');
+    }
+});
+
+// ─── DELETE /api/questions/:id ──────────────────────────
+// Sessions that already asked the question keep their copy
+
+questionBankRouter.delete('/:id', (req: Request, res: Response) => {
+    if (!deleteBankQuestion(req.params.id as string)) {
+        res.status(404).json({ error: 'Question not found' });
+        return;
+    }
+    res.status(204).end();
+});
@@ -0,0 +1,36 @@
+/**
+ * Admin Access
+ * Routes for interviewers rather than candidates (the question bank, with its
+ * reference solutions and hidden tests; a session's agent trace and event log,
+ * with its scores) require `Authorization: Bearer <ADMIN_TOKEN>`. Without
+ * ADMIN_TOKEN they are switched off.
+ */
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+export function isAdminEnabled(): boolean {
+    return Boolean(process.env.ADMIN_TOKEN);
+}
+
+/**
+ * Middleware letting only requests with the admin token through.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) {
+        res.status(403).json({ error: 'Admin routes are disabled: set ADMIN_TOKEN to use them' });
+        return;
+    }
+
+    const [scheme, given] = (req.get('Authorization') || '').split(' ');
+    // Compare digests so neither the length nor the content leaks through timing
+    if (scheme !== 'Bearer' || !given || !timingSafeEqual(digest(given), digest(token))) {
+        res.status(401).json({ error: 'Admin token required' });
+        return;
+    }
+    next();
+}
@@ -0,0 +1,245 @@
+/**
+ * Agent Deltas
+ * Applies the narrow delta each agent returns, enforcing which part of the
+ * session that agent owns. Fields outside an agent's ownership are logged and
+ * dropped; a delta aimed at the wrong question is rejected outright.
+ * `expectedVersion` is the session version the agent call started from: the
+ * merge is refused if the session changed while the agent was working.
+ * Each merge is recorded in the session's event log with what was rejected.
+ */
+import type { AgentRole } from './agents.js';
+import {
+    interviewerResponseSchema,
+    followUpResponseSchema,
+    evaluatorResponseSchema,
+    codeReviewResponseSchema,
+    type InterviewerDelta,
+    type FollowUpDelta,
+    type EvaluatorDelta,
+    type CodeReviewerDelta,
+    type AnalystDelta,
+    type CriterionScore,
+    type EvaluatorResponse,
+} from './agentSchemas.js';
+import { getThread } from './followUps.js';
+import { getScoringRubric, scoreRubric, type CriterionResult } from './rubrics.js';
+import {
+    getSession,
+    addQuestion,
+    addFollowUp,
+    recordEvaluation,
+    recordCodeReview,
+    type QuestionRecord,
+} from './sessionManager.js';
+
+/** The deltas agents return, named after the key each one writes */
+type DeltaKind = 'question' | 'followUp' | 'evaluation' | 'codeReview' | 'analysis';
+
+// Top-level keys and payload fields each delta may write. The interviewer
+// returns two kinds (a question, a follow-up), and each owns only its own key
+const OWNERSHIP: Record<DeltaKind, { role: AgentRole; keys: string[]; payloads?: Array<{ key: string; fields: string[] }> }> = {
+    question: {
+        role: 'interviewer',
+        keys: ['question'],
+        payloads: [{ key: 'question', fields: Object.keys(interviewerResponseSchema.shape) }],
+    },
+    followUp: {
+        role: 'interviewer',
+        keys: ['followUp'],
+        payloads: [{ key: 'followUp', fields: Object.keys(followUpResponseSchema.shape) }],
+    },
+    evaluation: {
+        role: 'evaluator',
+        keys: ['questionId', 'evaluation'],
+        payloads: [{ key: 'evaluation', fields: Object.keys(evaluatorResponseSchema.shape) }],
+    },
+    codeReview: {
+        role: 'codeReviewer',
+        keys: ['questionId', 'codeReview'],
+        payloads: [{ key: 'codeReview', fields: Object.keys(codeReviewResponseSchema.shape) }],
+    },
+    // The analyst owns the whole report
+    analysis: { role: 'analyst', keys: ['analysis'] },
+};
+
+/**
+ * Drop every field the delta does not own, logging what was rejected.
+ */
+function stripUnowned<T extends object>(kind: DeltaKind, sessionId: string, delta: T): { owned: T; rejected: string[] } {
+    const { role, keys, payloads = [] } = OWNERSHIP[kind];
+    const rejected: string[] = [];
+
+    const owned = Object.fromEntries(
+        Object.entries(delta).filter(([key]) => {
+            if (keys.includes(key)) return true;
+            rejected.push(key);
+            return false;
+        })
+    ) as Record<string, unknown>;
+
+    for (const payload of payloads) {
+        if (!owned[payload.key] || typeof owned[payload.key] !== 'object') continue;
+        owned[payload.key] = Object.fromEntries(
+            Object.entries(owned[payload.key] as Record<string, unknown>).filter(([field]) => {
+                if (payload.fields.includes(field)) return true;
+                rejected.push(`${payload.key}.${field}`);
+                return false;
+            })
+        );
+    }
+
+    if (rejected.length > 0) {
+        console.warn(`  🚫 ${role} tried to write fields it does not own (session ${sessionId}): ${rejected.join(', ')} — rejected`);
+    }
+
+    return { owned: owned as T, rejected };
+}
+
+function requireTarget(
+    role: AgentRole,
+    sessionId: string,
+    expectedId: number,
+    actualId: number,
+    type: QuestionRecord['type']
+): QuestionRecord {
+    if (actualId !== expectedId) {
+        console.warn(`  🚫 ${role} targeted Q${actualId} but was asked about Q${expectedId} — rejected`);
+        throw new Error(`${role} delta targets question ${actualId}, expected ${expectedId}`);
+    }
+
+    const question = getSession(sessionId)?.questions.find(q => q.id === expectedId);
+    if (!question) throw new Error(`Question ${expectedId} not found`);
+    if (question.type !== type) {
+        console.warn(`  🚫 ${role} cannot write to ${question.type} question Q${expectedId} — rejected`);
+        throw new Error(`${role} delta targets a ${question.type} question`);
+    }
+    return question;
+}
+
+/**
+ * `bankId` is the question bank entry the interviewer was asked to adapt, if any.
+ */
+export function applyInterviewerDelta(
+    sessionId: string,
+    delta: InterviewerDelta,
+    promptVersion: string,
+    expectedVersion?: number,
+    bankId?: string
+): QuestionRecord {
+    const { owned: { question }, rejected } = stripUnowned('question', sessionId, delta);
+    return addQuestion(sessionId, { ...question, bankId }, expectedVersion, { role: 'interviewer', promptVersion, rejected });
+}
+
+/**
+ * The follow-up the interviewer asked on question `parentId`, or undefined
+ * when it found the answer needed none.
+ */
+export function applyFollowUpDelta(
+    sessionId: string,
+    parentId: number,
+    delta: FollowUpDelta,
+    promptVersion: string,
+    expectedVersion?: number
+): QuestionRecord | undefined {
+    const { owned: { followUp }, rejected } = stripUnowned('followUp', sessionId, delta);
+    if (!followUp) return undefined;
+    return addFollowUp(sessionId, parentId, followUp, expectedVersion, {
+        role: 'interviewer',
+        promptVersion,
+        questionId: parentId,
+        rejected,
+    });
+}
+
+/**
+ * A score for an answer flagged as a possible injection is kept, but marked
+ * suspect so it can be reviewed. A question is scored with its follow-ups, so
+ * a flag on any answer in the thread counts.
+ */
+function suspectMark(sessionId: string, question: QuestionRecord): { suspect?: true } {
+    const session = getSession(sessionId);
+    const thread = session ? getThread(session, question.id) : [question];
+    return thread.some(q => q.injectionFlags) ? { suspect: true } : {};
+}
+
+/**
+ * The question score: computed from the criterion levels when the prompt
+ * scored against the question's rubric, otherwise the score the agent gave.
+ */
+function scoreFor(
+    role: AgentRole,
+    question: QuestionRecord,
+    payload: { score?: number; criteria?: CriterionScore[] },
+    promptVersion: string
+): { score: number; criteria: CriterionResult[] | undefined } {
+    const rubric = getScoringRubric(question, promptVersion);
+    if (rubric && payload.criteria) return scoreRubric(rubric, payload.criteria);
+    if (payload.score === undefined) {
+        throw new Error(`${role} returned neither criterion scores nor a score for Q${question.id}`);
+    }
+    return { score: payload.score, criteria: undefined };
+}
+
+export type OwnedEvaluation = Omit<EvaluatorResponse, 'score' | 'criteria'>
+    & { score: number; criteria?: CriterionResult[]; suspect?: true };
+
+/**
+ * The evaluation from an evaluator delta, once ownership and target are checked
+ * and the score is computed, with the fields that were rejected. Used directly
+ * by ensemble runs, which are combined before being recorded.
+ */
+export function getOwnedEvaluation(
+    sessionId: string,
+    questionId: number,
+    delta: EvaluatorDelta,
+    promptVersion: string
+): { evaluation: OwnedEvaluation; rejected: string[] } {
+    const { owned: { evaluation }, rejected } = stripUnowned('evaluation', sessionId, delta);
+    const question = requireTarget('evaluator', sessionId, questionId, delta.questionId, 'video');
+    return {
+        evaluation: { ...evaluation, ...scoreFor('evaluator', question, evaluation, promptVersion), ...suspectMark(sessionId, question) },
+        rejected,
+    };
+}
+
+export function applyEvaluatorDelta(
+    sessionId: string,
+    questionId: number,
+    delta: EvaluatorDelta,
+    promptVersion: string,
+    expectedVersion?: number
+): void {
+    const { evaluation, rejected } = getOwnedEvaluation(sessionId, questionId, delta, promptVersion);
+    recordEvaluation(sessionId, questionId, { ...evaluation, promptVersion }, expectedVersion, {
+        role: 'evaluator',
+        promptVersion,
+        questionId,
+        rejected,
+    });
+}
+
+export function applyCodeReviewerDelta(
+    sessionId: string,
+    questionId: number,
+    delta: CodeReviewerDelta,
+    promptVersion: string,
+    expectedVersion?: number
+): void {
+    const { owned: { codeReview }, rejected } = stripUnowned('codeReview', sessionId, delta);
+    const question = requireTarget('codeReviewer', sessionId, questionId, delta.questionId, 'code');
+    recordCodeReview(sessionId, questionId, {
+        ...codeReview,
+        ...scoreFor('codeReviewer', question, codeReview, promptVersion),
+        promptVersion,
+        ...suspectMark(sessionId, question),
+    }, expectedVersion, { role: 'codeReviewer', promptVersion, questionId, rejected });
+}
+
+export function applyAnalystDelta(
+    sessionId: string,
+    delta: AnalystDelta,
+    promptVersion: string
+): AnalystDelta['analysis'] {
+    const { owned: { analysis } } = stripUnowned('analysis', sessionId, delta);
+    return { ...analysis, promptVersion };
+}
@@ -0,0 +1,289 @@
+/**
+ * Agent Registry
+ * Named agents and the routing rules that pick one per role, loaded from a
+ * JSON file (AGENT_REGISTRY_PATH, default backend/agents.json):
+ *
+ *   {
+ *     "agents": {
+ *       "frontend-interviewer": { "role": "interviewer", "provider": "archestra", "id": "..." },
+ *       "backend-interviewer": { "role": "interviewer", "provider": "openai", "id": "backend", "model": "gpt-4o" }
+ *     },
+ *     "routes": [
+ *       { "role": "interviewer", "match": { "jobRole": "backend" }, "agent": "backend-interviewer" }
+ *     ]
+ *   }
+ *
+ * The first route whose `match` fits the session wins; a role without a
+ * matching route uses its first agent. The file is validated at startup and
+ * watched: edits apply to the next agent call, and an invalid edit is logged
+ * and ignored. Without the file (until one is created), agents come from the
+ * per-role env vars.
+ */
+import { existsSync, readFileSync, watch, type FSWatcher } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import {
+    AGENT_ROLES,
+    PROVIDER_NAMES,
+    getAgentConfig,
+    getAgentDefaults,
+    getBudgetFallbackAgent,
+    type AgentConfig,
+    type AgentRole,
+} from './agents.js';
+import { formatIssues } from './agentSchemas.js';
+import { PROMPT_IDS, hasPromptTemplate, type PromptId } from './promptRegistry.js';
+import type { InterviewSession } from './sessionManager.js';
+
+const registryAgentSchema = z.object({
+    role: z.enum(AGENT_ROLES as [AgentRole, ...AgentRole[]]),
+    provider: z.enum(PROVIDER_NAMES as [string, ...string[]]),
+    id: z.string().min(1),
+    model: z.string().min(1).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    contextBudget: z.number().int().positive().optional(),
+    /** Prompt template id → pinned version */
+    prompts: z.record(z.string()).optional(),
+    pricing: z.object({
+        inputPer1k: z.number().nonnegative(),
+        outputPer1k: z.number().nonnegative(),
+    }).optional(),
+    /** Cheaper registry agent to switch to once the session budget is spent */
+    budgetAgent: z.string().optional(),
+}).strict();
+
+const routeSchema = z.object({
+    role: z.enum(AGENT_ROLES as [AgentRole, ...AgentRole[]]),
+    agent: z.string(),
+    match: z.object({
+        /** Case-insensitive regex tested against the job role ("backend", "^senior ") */
+        jobRole: z.string().optional(),
+        company: z.string().optional(),
+        /** Interview template the session was started from */
+        template: z.string().optional(),
+    }).strict().optional(),
+}).strict();
+
+const registrySchema = z.object({
+    agents: z.record(registryAgentSchema),
+    routes: z.array(routeSchema).default([]),
+}).strict();
+
+type RegistryFile = z.infer<typeof registrySchema>;
+type Route = RegistryFile['routes'][number];
+
+interface AgentRegistry {
+    agents: Map<string, AgentConfig & { budgetAgent?: string }>;
+    routes: Array<Route & { patterns: { jobRole?: RegExp; company?: RegExp } }>;
+    loadedAt: string;
+}
+
+let registry: AgentRegistry | undefined;
+let lastError: string | undefined;
+let watcher: FSWatcher | undefined;
+
+function getRegistryPath(): string {
+    const configured = process.env.AGENT_REGISTRY_PATH;
+    // src/services → backend/agents.json (same depth from dist/services)
+    return configured
+        ? resolve(configured)
+        : fileURLToPath(new URL('../../agents.json', import.meta.url));
+}
+
+function compilePattern(value: string | undefined, where: string): RegExp | undefined {
+    if (value === undefined) return undefined;
+    try {
+        return new RegExp(value, 'i');
+    } catch (err) {
+        throw new Error(`${where}: invalid pattern (${(err as Error).message})`);
+    }
+}
+
+/**
+ * Parse and cross-check a registry file. Throws with every problem found.
+ */
+function parseRegistry(raw: string): AgentRegistry {
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch (err) {
+        throw new Error(`not valid JSON: ${(err as Error).message}`);
+    }
+
+    const parsed = registrySchema.safeParse(json);
+    if (!parsed.success) throw new Error(formatIssues(parsed.error).join('; '));
+
+    const { agents: entries, routes } = parsed.data;
+    const problems: string[] = [];
+    const agents: AgentRegistry['agents'] = new Map();
+
+    for (const [name, entry] of Object.entries(entries)) {
+        // Unset fields keep the role's env defaults (timeout, budget, prices)
+        const defaults = getAgentDefaults(entry.role);
+        for (const [promptId, version] of Object.entries(entry.prompts ?? {})) {
+            if (!(PROMPT_IDS as string[]).includes(promptId)) {
+                problems.push(`agents.${name}.prompts: unknown prompt "${promptId}"`);
+            } else if (!hasPromptTemplate(promptId, version)) {
+                problems.push(`agents.${name}.prompts: ${promptId}@${version} not found`);
+            }
+        }
+        if (entry.budgetAgent && entries[entry.budgetAgent]?.role !== entry.role) {
+            problems.push(`agents.${name}.budgetAgent: "${entry.budgetAgent}" is not a ${entry.role} agent`);
+        }
+
+        agents.set(name, {
+            role: entry.role,
+            name,
+            id: entry.id,
+            provider: entry.provider as AgentConfig['provider'],
+            model: entry.model,
+            timeoutMs: entry.timeoutMs ?? defaults.timeoutMs,
+            contextBudget: entry.contextBudget ?? defaults.contextBudget,
+            pricing: entry.pricing ?? defaults.pricing,
+            prompts: entry.prompts as Partial<Record<PromptId, string>> | undefined,
+            budgetAgent: entry.budgetAgent,
+        });
+    }
+
+    const compiled: AgentRegistry['routes'] = [];
+    routes.forEach((route, index) => {
+        const agent = agents.get(route.agent);
+        if (!agent) {
+            problems.push(`routes.${index}: unknown agent "${route.agent}"`);
+        } else if (agent.role !== route.role) {
+            problems.push(`routes.${index}: "${route.agent}" is a ${agent.role} agent, not ${route.role}`);
+        }
+        try {
+            compiled.push({
+                ...route,
+                patterns: {
+                    jobRole: compilePattern(route.match?.jobRole, `routes.${index}.match.jobRole`),
+                    company: compilePattern(route.match?.company, `routes.${index}.match.company`),
+                },
+            });
+        } catch (err) {
+            problems.push((err as Error).message);
+        }
+    });
+
+    for (const role of AGENT_ROLES) {
+        if (![...agents.values()].some(agent => agent.role === role)) {
+            problems.push(`no ${role} agent defined`);
+        }
+    }
+
+    if (problems.length > 0) throw new Error(problems.join('; '));
+    return { agents, routes: compiled, loadedAt: new Date().toISOString() };
+}
+
+function readRegistry(path: string): AgentRegistry {
+    try {
+        return parseRegistry(readFileSync(path, 'utf8'));
+    } catch (err) {
+        throw new Error(`Agent registry ${path}: ${(err as Error).message}`);
+    }
+}
+
+function watchRegistry(path: string): void {
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+
+    // Watch the directory: editors often replace the file rather than write
+    // to it, and a file created after startup is picked up too
+    try {
+        watcher = watch(dirname(path), { persistent: false }, (_event, filename) => {
+            if (filename !== basename(path)) return;
+            clearTimeout(debounce);
+            debounce = setTimeout(() => reloadRegistry(path), 200);
+        });
+    } catch (err) {
+        console.warn(`⚠ Cannot watch ${dirname(path)} for agent registry changes: ${(err as Error).message}`);
+    }
+}
+
+function reloadRegistry(path: string): void {
+    if (!existsSync(path)) {
+        if (registry) console.warn(`⚠ Agent registry ${path} was removed — keeping the last loaded version`);
+        return;
+    }
+    try {
+        registry = readRegistry(path);
+        lastError = undefined;
+        console.log(`🔄 Agent registry reloaded: ${registry.agents.size} agents, ${registry.routes.length} routes`);
+    } catch (err) {
+        lastError = (err as Error).message;
+        console.error(`❌ ${lastError} — keeping the ${registry ? 'previous registry' : 'env agent config'}`);
+    }
+}
+
+/**
+ * Load and validate the registry file and start watching for changes.
+ * Call at startup: an invalid file fails fast. No file means env config
+ * until one is created.
+ */
+export function loadAgentRegistry(): void {
+    const path = getRegistryPath();
+    registry = existsSync(path) ? readRegistry(path) : undefined;
+    if (!watcher) watchRegistry(path);
+}
+
+function matches(route: AgentRegistry['routes'][number], session?: InterviewSession): boolean {
+    if (!route.match) return true;
+    if (!session) return false;
+
+    const { jobRole, company } = route.patterns;
+    if (jobRole && !jobRole.test(session.role)) return false;
+    if (company && !company.test(session.company)) return false;
+    if (route.match.template !== undefined && route.match.template !== session.template) return false;
+    return true;
+}
+
+/**
+ * The agent that serves `role` for this session.
+ */
+export function resolveAgent(role: AgentRole, session?: InterviewSession): AgentConfig {
+    if (!registry) return getAgentConfig(role);
+
+    const route = registry.routes.find(r => r.role === role && matches(r, session));
+    const agent = route
+        ? registry.agents.get(route.agent)!
+        : [...registry.agents.values()].find(a => a.role === role)!;
+
+    const { budgetAgent: _budgetAgent, ...config } = agent;
+    return config;
+}
+
+/**
+ * The cheaper agent to use once the session budget is spent: the registry
+ * agent's `budgetAgent`, or the env-configured budget agent for the role.
+ */
+export function getBudgetAgent(agent: AgentConfig): AgentConfig | undefined {
+    if (!registry || !agent.name) return getBudgetFallbackAgent(agent.role);
+
+    const budgetName = registry.agents.get(agent.name)?.budgetAgent;
+    const budget = budgetName ? registry.agents.get(budgetName) : undefined;
+    if (!budget) return undefined;
+
+    const { budgetAgent: _budgetAgent, ...config } = budget;
+    return config;
+}
+
+/**
+ * Every configured agent: all registry agents, or the four env-configured ones.
+ */
+export function listAgents(): AgentConfig[] {
+    if (!registry) return AGENT_ROLES.map(role => getAgentConfig(role));
+    return [...registry.agents.values()].map(({ budgetAgent: _budgetAgent, ...config }) => config);
+}
+
+export function getRegistryStatus(): {
+    source: 'file' | 'env';
+    path?: string;
+    loadedAt?: string;
+    routes: number;
+    lastError?: string;
+} {
+    return registry
+        ? { source: 'file', path: getRegistryPath(), loadedAt: registry.loadedAt, routes: registry.routes.length, lastError }
+        : { source: 'env', routes: 0 };
+}
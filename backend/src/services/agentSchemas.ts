@@ -0,0 +1,184 @@
+/**
+ * Agent Response Schemas
+ * Runtime validation for everything an agent is allowed to hand back.
+ * Wrong types are rejected. Unknown keys pass through the delta schemas so
+ * agentDeltas can log and reject the ones the role does not own.
+ */
+import { z } from 'zod';
+
+export const difficultySchema = z.enum(['easy', 'medium', 'hard']);
+
+const scoreSchema = z.number().min(0).max(100);
+
+// ─── Rubrics ────────────────────────────────────────────
+// A rubric is weighted criteria, each with level descriptors from lowest to
+// highest. Agents pick a level per criterion; the backend computes the score.
+
+export const rubricSchema = z.object({
+    criteria: z.array(z.object({
+        id: z.string().min(1),
+        name: z.string().min(1),
+        weight: z.number().positive(),
+        levels: z.array(z.object({
+            label: z.string().min(1),
+            description: z.string(),
+        })).min(2).max(6),
+    })).min(1).max(8),
+}).refine(
+    rubric => new Set(rubric.criteria.map(c => c.id)).size === rubric.criteria.length,
+    { message: 'criterion ids must be unique', path: ['criteria'] }
+);
+
+export const criterionScoreSchema = z.object({
+    criterionId: z.string(),
+    /** 0-based index into the criterion's levels */
+    level: z.number().int().min(0),
+    rationale: z.string().optional(),
+});
+
+export type Rubric = z.infer<typeof rubricSchema>;
+export type CriterionScore = z.infer<typeof criterionScoreSchema>;
+
+// ─── Per-role payloads ──────────────────────────────────
+
+export const interviewerResponseSchema = z.object({
+    type: z.enum(['video', 'code']),
+    text: z.string().min(1),
+    title: z.string().optional(),
+    difficulty: difficultySchema,
+    starterCode: z.string().optional(),
+    language: z.string().optional(),
+    rubric: rubricSchema.optional(),
+});
+
+// A follow-up is a video question on the same topic, so it needs only its text
+export const followUpResponseSchema = z.object({
+    text: z.string().min(1),
+    title: z.string().optional(),
+});
+
+// With a rubric the score is computed from `criteria`, so it is optional here
+export const evaluatorResponseSchema = z.object({
+    score: scoreSchema.optional(),
+    criteria: z.array(criterionScoreSchema).optional(),
+    maxScore: z.number().optional(),
+    difficulty: difficultySchema.optional(),
+    nextDifficulty: difficultySchema,
+    strengths: z.array(z.string()),
+    weaknesses: z.array(z.string()),
+    brief: z.string(),
+});
+
+export const codeReviewResponseSchema = z.object({
+    score: scoreSchema.optional(),
+    criteria: z.array(criterionScoreSchema).optional(),
+    maxScore: z.number().optional(),
+    correctness: z.boolean(),
+    timeComplexity: z.string(),
+    spaceComplexity: z.string(),
+    strengths: z.array(z.string()),
+    issues: z.array(z.string()),
+    brief: z.string(),
+});
+
+// The frontend normalises several report shapes, so only the core fields are strict
+export const analystReportSchema = z.object({
+    overallScore: scoreSchema,
+    recommendation: z.string(),
+    summary: z.string(),
+    totalTime: z.string().optional(),
+    skillScores: z.record(z.number()).optional(),
+    skills: z.array(z.object({ label: z.string(), score: z.number() }).passthrough()).optional(),
+    questionResults: z.array(z.object({ score: z.number() }).passthrough()),
+    feedback: z.array(z.object({ type: z.string(), text: z.string() }).passthrough()),
+}).passthrough();
+
+export type InterviewerResponse = z.infer<typeof interviewerResponseSchema>;
+export type FollowUpResponse = z.infer<typeof followUpResponseSchema>;
+export type EvaluatorResponse = z.infer<typeof evaluatorResponseSchema>;
+export type CodeReviewResponse = z.infer<typeof codeReviewResponseSchema>;
+export type AnalystReport = z.infer<typeof analystReportSchema>;
+
+// ─── Deltas ─────────────────────────────────────────────
+// Each role returns only the slice of the session it owns. Known fields are
+// type-checked here; extra keys are kept so agentDeltas can log and reject them.
+
+export const interviewerDeltaSchema = z.object({
+    question: interviewerResponseSchema.passthrough(),
+}).passthrough();
+
+// null: the answer needs no follow-up
+export const followUpDeltaSchema = z.object({
+    followUp: followUpResponseSchema.passthrough().nullable(),
+}).passthrough();
+
+export const evaluatorDeltaSchema = z.object({
+    questionId: z.number().int().positive(),
+    evaluation: evaluatorResponseSchema.passthrough(),
+}).passthrough();
+
+export const codeReviewerDeltaSchema = z.object({
+    questionId: z.number().int().positive(),
+    codeReview: codeReviewResponseSchema.passthrough(),
+}).passthrough();
+
+export const analystDeltaSchema = z.object({
+    analysis: analystReportSchema,
+}).passthrough();
+
+/**
+ * Criterion scores for exactly the rubric's criteria, each at a level it defines.
+ */
+function criteriaSchemaFor(rubric: Rubric) {
+    return z.array(criterionScoreSchema).superRefine((scores, ctx) => {
+        for (const criterion of rubric.criteria) {
+            const score = scores.find(s => s.criterionId === criterion.id);
+            if (!score) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: `missing score for criterion "${criterion.id}"` });
+            } else if (score.level >= criterion.levels.length) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `level for "${criterion.id}" must be 0-${criterion.levels.length - 1}`,
+                });
+            }
+        }
+        for (const score of scores) {
+            if (!rubric.criteria.some(c => c.id === score.criterionId)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: `unknown criterion "${score.criterionId}"` });
+            }
+        }
+    });
+}
+
+/**
+ * The evaluator delta schema for one question: scores per rubric criterion
+ * when the question has a rubric, otherwise a plain score.
+ */
+export function evaluatorDeltaSchemaFor(rubric?: Rubric) {
+    return evaluatorDeltaSchema.extend({
+        evaluation: rubric
+            ? evaluatorResponseSchema.extend({ criteria: criteriaSchemaFor(rubric) }).passthrough()
+            : evaluatorResponseSchema.extend({ score: scoreSchema }).passthrough(),
+    });
+}
+
+export function codeReviewerDeltaSchemaFor(rubric?: Rubric) {
+    return codeReviewerDeltaSchema.extend({
+        codeReview: rubric
+            ? codeReviewResponseSchema.extend({ criteria: criteriaSchemaFor(rubric) }).passthrough()
+            : codeReviewResponseSchema.extend({ score: scoreSchema }).passthrough(),
+    });
+}
+
+export type InterviewerDelta = z.infer<typeof interviewerDeltaSchema>;
+export type FollowUpDelta = z.infer<typeof followUpDeltaSchema>;
+export type EvaluatorDelta = z.infer<typeof evaluatorDeltaSchema>;
+export type CodeReviewerDelta = z.infer<typeof codeReviewerDeltaSchema>;
+export type AnalystDelta = z.infer<typeof analystDeltaSchema>;
+
+/**
+ * Flatten zod issues into "path: message" lines for logs and repair prompts.
+ */
+export function formatIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
@@ -0,0 +1,142 @@
+/**
+ * Agent Call Trace
+ * Records every agent call against its session — prompt, raw reply, parse
+ * result, latency, retries and whether the route fell back — so a score can
+ * be debugged after the fact via GET /api/interview/session/:id/trace.
+ * Kept apart from the session so it never leaks into agent context.
+ *
+ * Traces live in memory only and are bounded: a session keeps its latest
+ * AGENT_TRACE_MAX_CALLS calls (default 100), and only the
+ * AGENT_TRACE_MAX_SESSIONS most recently active sessions (default 100) keep a
+ * trace at all. A session's trace is cleared when the session is deleted.
+ */
+import type { AgentConfig, AgentRole } from './agents.js';
+import type { ContextBudgetReport } from './contextBudget.js';
+import type { TokenUsage } from './usage.js';
+
+export interface AgentTraceAttempt {
+    attempt: number;
+    prompt: string;
+    rawResponse?: string;
+    parse: 'ok' | 'invalid' | 'no-response';
+    errors?: string[];
+    /** Transport retries inside this attempt (5xx, timeouts, network) */
+    retries: number;
+    latencyMs: number;
+    usage?: TokenUsage;
+    costUsd?: number;
+}
+
+export interface AgentTraceEntry {
+    id: number;
+    role: AgentRole;
+    provider: AgentConfig['provider'];
+    agentId: string;
+    promptVersion?: string;
+    /** Set for evaluator ensemble runs */
+    ensembleMember?: number;
+    startedAt: string;
+    latencyMs: number;
+    outcome: 'pending' | 'success' | 'invalid' | 'error';
+    error?: string;
+    fallbackUsed: boolean;
+    fallbackReason?: string;
+    context?: ContextBudgetReport;
+    attempts: AgentTraceAttempt[];
+}
+
+function getMaxCalls(): number {
+    const value = Number(process.env.AGENT_TRACE_MAX_CALLS);
+    return Number.isInteger(value) && value > 0 ? value : 100;
+}
+
+function getMaxSessions(): number {
+    const value = Number(process.env.AGENT_TRACE_MAX_SESSIONS);
+    return Number.isInteger(value) && value > 0 ? value : 100;
+}
+
+// In order of last activity, oldest first
+const traces = new Map<string, AgentTraceEntry[]>();
+
+function entriesFor(sessionId: string): AgentTraceEntry[] {
+    const entries = traces.get(sessionId) ?? [];
+    // Re-insert so the session moves to the back of the eviction order
+    traces.delete(sessionId);
+    traces.set(sessionId, entries);
+
+    for (const oldest of traces.keys()) {
+        if (traces.size <= getMaxSessions()) break;
+        traces.delete(oldest);
+    }
+    return entries;
+}
+
+/** Append an entry, dropping the session's oldest once over the cap */
+function addEntry(entries: AgentTraceEntry[], entry: Omit<AgentTraceEntry, 'id'>): AgentTraceEntry {
+    const traced = { id: (entries[entries.length - 1]?.id ?? 0) + 1, ...entry };
+    entries.push(traced);
+    if (entries.length > getMaxCalls()) entries.splice(0, entries.length - getMaxCalls());
+    return traced;
+}
+
+export function startTrace(
+    sessionId: string,
+    agent: AgentConfig,
+    details: { promptVersion?: string; context?: ContextBudgetReport; ensembleMember?: number }
+): AgentTraceEntry {
+    return addEntry(entriesFor(sessionId), {
+        role: agent.role,
+        provider: agent.provider,
+        agentId: agent.id,
+        promptVersion: details.promptVersion,
+        ensembleMember: details.ensembleMember,
+        startedAt: new Date().toISOString(),
+        latencyMs: 0,
+        outcome: 'pending',
+        fallbackUsed: false,
+        context: details.context,
+        attempts: [],
+    });
+}
+
+export function finishTrace(entry: AgentTraceEntry, outcome: AgentTraceEntry['outcome'], error?: string): void {
+    entry.outcome = outcome;
+    entry.error = error;
+    entry.latencyMs = Date.now() - new Date(entry.startedAt).getTime();
+}
+
+/**
+ * Mark that the route used its fallback instead of the agent's output.
+ * Attaches to the role's latest failed call; if there is none, a call-less
+ * entry is added so the timeline stays complete.
+ */
+export function recordFallback(sessionId: string, agent: AgentConfig, reason: string): void {
+    const entries = entriesFor(sessionId);
+    const latest = [...entries].reverse().find(e => e.role === agent.role);
+
+    if (latest && latest.outcome !== 'success' && !latest.fallbackUsed) {
+        latest.fallbackUsed = true;
+        latest.fallbackReason = reason;
+        return;
+    }
+
+    addEntry(entries, {
+        role: agent.role,
+        provider: agent.provider,
+        agentId: agent.id,
+        startedAt: new Date().toISOString(),
+        latencyMs: 0,
+        outcome: 'error',
+        fallbackUsed: true,
+        fallbackReason: reason,
+        attempts: [],
+    });
+}
+
+export function getTrace(sessionId: string): AgentTraceEntry[] {
+    return traces.get(sessionId) || [];
+}
+
+export function clearTrace(sessionId: string): void {
+    traces.delete(sessionId);
+}
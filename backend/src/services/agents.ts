@@ -0,0 +1,161 @@
+/**
+ * Agent Configuration
+ * Resolves which provider (and which agent/model on it) serves each interview role
+ * from env vars. An agent registry file, when present, takes over (agentRegistry.ts).
+ */
+import type { PromptId } from './promptRegistry.js';
+
+export type AgentRole = 'interviewer' | 'evaluator' | 'codeReviewer' | 'analyst';
+
+export type ProviderName = 'archestra' | 'openai' | 'mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['archestra', 'openai', 'mock'];
+
+export const AGENT_ROLES: AgentRole[] = ['interviewer', 'evaluator', 'codeReviewer', 'analyst'];
+
+export interface AgentConfig {
+    role: AgentRole;
+    /** Registry name, for agents defined in the agent registry file */
+    name?: string;
+    /** Agent ID on the provider (Archestra agent UUID, or a free label for openai/mock) */
+    id: string;
+    provider: ProviderName;
+    /** Model name, used by the OpenAI-compatible provider */
+    model?: string;
+    /** Per-call timeout before the request is aborted */
+    timeoutMs: number;
+    /** Max characters of session context sent per call (~4 chars per token) */
+    contextBudget: number;
+    /** USD per 1k tokens, used for session cost accounting */
+    pricing: { inputPer1k: number; outputPer1k: number };
+    /** Prompt template versions this agent is pinned to */
+    prompts?: Partial<Record<PromptId, string>>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// The analyst reads the whole interview, the interviewer mostly needs titles
+const DEFAULT_CONTEXT_BUDGET: Record<AgentRole, number> = {
+    interviewer: 12_000,
+    evaluator: 16_000,
+    codeReviewer: 24_000,
+    analyst: 48_000,
+};
+
+const ENV_PREFIX: Record<AgentRole, string> = {
+    interviewer: 'INTERVIEWER',
+    evaluator: 'EVALUATOR',
+    codeReviewer: 'CODE_REVIEWER',
+    analyst: 'ANALYST',
+};
+
+function parsePositive(value: string | undefined): number | undefined {
+    const number = Number(value);
+    return value && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function parsePrice(value: string | undefined): number | undefined {
+    const number = Number(value);
+    return value && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+function parseProvider(value: string, source: string): ProviderName {
+    if ((PROVIDER_NAMES as string[]).includes(value)) return value as ProviderName;
+    throw new Error(`${source} must be one of ${PROVIDER_NAMES.join(', ')} (got "${value}")`);
+}
+
+/**
+ * Read the config for one role from env.
+ * `<ROLE>_PROVIDER` overrides the global `AGENT_PROVIDER` (default: archestra),
+ * `<ROLE>_TIMEOUT_MS` overrides `AGENT_TIMEOUT_MS` (default: 30s),
+ * `<ROLE>_CONTEXT_BUDGET` sets the context size in characters,
+ * `<ROLE>_PRICE_INPUT_PER_1K` / `_OUTPUT_PER_1K` override the `AGENT_PRICE_*` defaults (0).
+ */
+export function getAgentConfig(role: AgentRole): AgentConfig {
+    const prefix = ENV_PREFIX[role];
+    const roleProvider = process.env[`${prefix}_PROVIDER`];
+    const provider = roleProvider
+        ? parseProvider(roleProvider, `${prefix}_PROVIDER`)
+        : parseProvider(process.env.AGENT_PROVIDER || 'archestra', 'AGENT_PROVIDER');
+
+    return {
+        role,
+        id: process.env[`${prefix}_AGENT_ID`] || role,
+        provider,
+        model: process.env[`${prefix}_MODEL`] || undefined,
+        ...getAgentDefaults(role),
+    };
+}
+
+/**
+ * The env settings of a role that do not pick the agent itself (timeout,
+ * context budget, prices). Registry agents fall back to these, so unlike
+ * getAgentConfig this never fails on the role's provider env vars.
+ */
+export function getAgentDefaults(role: AgentRole): Pick<AgentConfig, 'timeoutMs' | 'contextBudget' | 'pricing'> {
+    const prefix = ENV_PREFIX[role];
+    return {
+        timeoutMs: parsePositive(process.env[`${prefix}_TIMEOUT_MS`])
+            ?? parsePositive(process.env.AGENT_TIMEOUT_MS)
+            ?? DEFAULT_TIMEOUT_MS,
+        contextBudget: parsePositive(process.env[`${prefix}_CONTEXT_BUDGET`])
+            ?? DEFAULT_CONTEXT_BUDGET[role],
+        pricing: {
+            inputPer1k: parsePrice(process.env[`${prefix}_PRICE_INPUT_PER_1K`])
+                ?? parsePrice(process.env.AGENT_PRICE_INPUT_PER_1K) ?? 0,
+            outputPer1k: parsePrice(process.env[`${prefix}_PRICE_OUTPUT_PER_1K`])
+                ?? parsePrice(process.env.AGENT_PRICE_OUTPUT_PER_1K) ?? 0,
+        },
+    };
+}
+
+/**
+ * The cheaper agent a role switches to once the session budget is spent.
+ * Configured with `<ROLE>_BUDGET_PROVIDER` (plus optional `_BUDGET_MODEL`,
+ * `_BUDGET_AGENT_ID` and prices); without it over-budget calls are skipped.
+ */
+export function getBudgetFallbackAgent(role: AgentRole): AgentConfig | undefined {
+    const prefix = ENV_PREFIX[role];
+    const budgetProvider = process.env[`${prefix}_BUDGET_PROVIDER`];
+    if (!budgetProvider) return undefined;
+
+    const primary = getAgentConfig(role);
+    return {
+        ...primary,
+        id: process.env[`${prefix}_BUDGET_AGENT_ID`] || primary.id,
+        provider: parseProvider(budgetProvider, `${prefix}_BUDGET_PROVIDER`),
+        model: process.env[`${prefix}_BUDGET_MODEL`] || undefined,
+        pricing: {
+            inputPer1k: parsePrice(process.env[`${prefix}_BUDGET_PRICE_INPUT_PER_1K`]) ?? 0,
+            outputPer1k: parsePrice(process.env[`${prefix}_BUDGET_PRICE_OUTPUT_PER_1K`]) ?? 0,
+        },
+    };
+}
+
+/**
+ * Agents that score each video answer. Just `evaluator` unless
+ * `EVALUATOR_ENSEMBLE_AGENTS` lists `provider:agentId[:model]` entries to run
+ * across, or `EVALUATOR_ENSEMBLE_SIZE` > 1 runs the evaluator that many times.
+ */
+export function getEvaluatorEnsemble(evaluator: AgentConfig): AgentConfig[] {
+    const members = (process.env.EVALUATOR_ENSEMBLE_AGENTS || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean);
+
+    if (members.length > 0) {
+        return members.map(entry => {
+            const [provider, id, model] = entry.split(':');
+            return {
+                ...evaluator,
+                name: undefined,
+                provider: parseProvider(provider, 'EVALUATOR_ENSEMBLE_AGENTS'),
+                id: id || evaluator.id,
+                model: model || evaluator.model,
+            };
+        });
+    }
+
+    const size = parsePositive(process.env.EVALUATOR_ENSEMBLE_SIZE) ?? 1;
+    return Array.from({ length: Math.floor(size) }, () => evaluator);
+}
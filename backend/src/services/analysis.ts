@@ -0,0 +1,143 @@
+/**
+ * Final Analysis
+ * Builds the end-of-interview report: the Analyst Agent's assessment, or a
+ * score-based fallback, plus the sections the backend computes itself.
+ * Sessions that end early (abandoned or expired) get a partial report
+ * covering only the questions the candidate answered.
+ */
+import { resolveAgent } from './agentRegistry.js';
+import { analystDeltaSchema } from './agentSchemas.js';
+import { applyAnalystDelta } from './agentDeltas.js';
+import { recordFallback } from './agentTrace.js';
+import { sendContextToAgent } from './archestra.js';
+import { AgentCallCancelledError } from './conversations.js';
+import { getReviewFlags } from './evaluatorEnsemble.js';
+import { getPlannedQuestions } from './followUps.js';
+import { getSuspectScores } from './promptInjection.js';
+import { renderPrompt } from './promptRegistry.js';
+import { roleVariables } from './roleProfiles.js';
+import { getRubricBreakdown } from './rubrics.js';
+import { getSectionScores, getWeightedScore } from './interviewTemplates.js';
+import type { InterviewPhase } from './interviewPhases.js';
+import type { InterviewSession } from './sessionManager.js';
+
+export type EarlyEnd = Extract<InterviewPhase, 'abandoned' | 'expired'>;
+
+// Report sections the backend computes itself, whatever the analyst says:
+// ensemble disagreements, suspect scores, the rubric breakdown and the
+// template's section scores with their weighted total
+function computedReportFields(session: InterviewSession) {
+    const sectionScores = getSectionScores(session);
+    return {
+        reviewFlags: getReviewFlags(session),
+        suspectScores: getSuspectScores(session),
+        rubricBreakdown: getRubricBreakdown(session),
+        sectionScores,
+        weightedScore: getWeightedScore(sectionScores),
+    };
+}
+
+function formatDuration(from: string, to: Date): string {
+    const durationMs = to.getTime() - new Date(from).getTime();
+    const minutes = Math.floor(durationMs / 60000);
+    const seconds = Math.floor((durationMs % 60000) / 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function fallbackAnalysis(session: InterviewSession, totalTime: string, earlyEnd?: EarlyEnd): Record<string, unknown> {
+    // Follow-ups are scored with the question they follow up on
+    const answered = getPlannedQuestions(session).filter(q => q.answer !== undefined);
+    const outcome = earlyEnd
+        ? `answered ${answered.length} of ${getPlannedQuestions(session).length} questions before the session was ${earlyEnd} in`
+        : 'completed';
+    const scores = answered
+        .filter(q => q.evaluation)
+        .map(q => q.evaluation!.score);
+    const avgScore = scores.length > 0 ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
+    const codeScores = answered.flatMap(q => q.codeReview ? [q.codeReview.score] : []);
+    const codeScore = codeScores.length > 0 ? Math.round(codeScores.reduce((a, b) => a + b, 0) / codeScores.length) : 0;
+
+    return {
+        overallScore: getWeightedScore(getSectionScores(session)),
+        recommendation: avgScore >= 80 ? 'Strong Hire' : avgScore >= 65 ? 'Hire' : avgScore >= 50 ? 'Maybe' : 'No Hire',
+        summary: `Candidate ${outcome} the ${session.role} interview. Average question score: ${avgScore}/100.${codeScores.length > 0 ? ` Code challenge score: ${codeScore}/100.` : ''}`,
+        totalTime: totalTime,
+        // Without the analyst there is no per-skill judgement: score what the template asked
+        skillScores: Object.fromEntries(getSectionScores(session).map(s => [s.name, s.score])),
+        questionResults: answered.map(q => ({
+            question: q.title || q.text.substring(0, 80),
+            score: q.evaluation?.score || q.codeReview?.score || 0,
+            maxScore: 100,
+            feedback: q.evaluation?.brief || q.codeReview?.brief || 'Completed',
+        })),
+        feedback: [
+            ...answered.flatMap(q =>
+                (q.evaluation?.strengths || []).map(s => ({ type: 'strength', text: s }))
+            ),
+            ...answered.flatMap(q =>
+                (q.evaluation?.weaknesses || []).map(w => ({ type: 'improvement', text: w }))
+            ),
+        ],
+    };
+}
+
+/**
+ * Ask the Analyst Agent for the report, falling back to one built from the
+ * recorded scores (a call cancelled by /leave throws instead). `earlyEnd`
+ * makes it a partial report, timed up to the candidate's last activity
+ * instead of now.
+ */
+export async function generateAnalysis(
+    session: InterviewSession,
+    earlyEnd?: EarlyEnd
+): Promise<Record<string, unknown>> {
+    // Calculate duration outside the agent to ensure accuracy
+    const totalTime = formatDuration(session.startedAt, earlyEnd ? new Date(session.lastActivityAt) : new Date());
+    const planned = getPlannedQuestions(session);
+    const questionsAnswered = planned.filter(q => q.answer !== undefined).length;
+
+    const analyst = resolveAgent('analyst', session);
+    const prompt = earlyEnd
+        ? renderPrompt('analyst.partial-report', {
+            ...roleVariables(session),
+            totalTime,
+            reason: earlyEnd,
+            questionsAnswered,
+            questionsAsked: planned.length,
+        }, analyst.prompts?.['analyst.partial-report'])
+        : renderPrompt('analyst.report', {
+            ...roleVariables(session),
+            totalTime,
+        }, analyst.prompts?.['analyst.report']);
+
+    let analysis: Record<string, unknown>;
+    try {
+        const delta = await sendContextToAgent(
+            analyst,
+            session,
+            prompt.text,
+            analystDeltaSchema,
+            { promptVersion: prompt.promptVersion }
+        );
+
+        analysis = applyAnalystDelta(session.id, delta, prompt.promptVersion);
+
+        // Ensure totalTime is preserved/set if agent missed it
+        if (!analysis.totalTime) {
+            analysis.totalTime = totalTime;
+        }
+        console.log(`  ✓ Analysis generated via Agent Context`);
+
+    } catch (err) {
+        if (err instanceof AgentCallCancelledError) throw err;
+        console.warn('  ⚠ Analyst failed, using fallback');
+        recordFallback(session.id, analyst, (err as Error).message);
+        analysis = fallbackAnalysis(session, totalTime, earlyEnd);
+    }
+
+    return {
+        ...analysis,
+        ...computedReportFields(session),
+        ...(earlyEnd ? { partial: { reason: earlyEnd, questionsAnswered, questionsAsked: planned.length } } : {}),
+    };
+}
@@ -1,160 +1,306 @@
 /**
- * Archestra API Client
- * Uses the A2A (Agent-to-Agent) JSON-RPC protocol
- * Endpoint: /v1/a2a/{agentId}
+ * Agent Client
+ * Routes each agent call to the provider configured for that agent
+ * (Archestra A2A, OpenAI-compatible chat, or the offline mock).
  */
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { AgentConfig } from './agents.js';
+import { getBudgetAgent } from './agentRegistry.js';
+import { formatIssues } from './agentSchemas.js';
+import { assertCircuitClosed, recordFailure, recordSuccess, releaseProbe } from './circuitBreaker.js';
+import {
+    getConversation,
+    resetConversation,
+    diffContext,
+    type Conversation,
+} from './conversations.js';
+import { buildAgentContext } from './contextBudget.js';
+import { UNTRUSTED_INPUT_NOTICE } from './promptInjection.js';
+import { startTrace, finishTrace, type AgentTraceAttempt } from './agentTrace.js';
+import { recordAgentUsage, type InterviewSession } from './sessionManager.js';
+import { costOf, estimateUsage, getBudgetViolation, type TokenUsage } from './usage.js';
+import { getProvider, ProviderError, type ChatMessage } from './providers/index.js';
 
-interface ArchestraConfig {
-    baseUrl: string;
-    apiKey: string;
+function getRetryConfig(): { retries: number; baseDelayMs: number } {
+    const retries = Number(process.env.AGENT_RETRIES);
+    const baseDelayMs = Number(process.env.AGENT_RETRY_BASE_MS);
+    return {
+        retries: Number.isInteger(retries) && retries >= 0 ? retries : 2,
+        baseDelayMs: Number.isFinite(baseDelayMs) && baseDelayMs >= 0 ? baseDelayMs : 500,
+    };
 }
 
-function getConfig(): ArchestraConfig {
-    const baseUrl = process.env.ARCHESTRA_BASE_URL;
-    const apiKey = process.env.ARCHESTRA_API_KEY;
-
-    if (!baseUrl || !apiKey) {
-        throw new Error('ARCHESTRA_BASE_URL and ARCHESTRA_API_KEY must be set in .env');
+/**
+ * Network errors, timeouts, 429 and 5xx are worth retrying; other 4xx and
+ * configuration errors are not.
+ */
+function isRetryable(err: unknown): boolean {
+    if (err instanceof ProviderError) {
+        return err.status === undefined || err.status === 429 || err.status >= 500;
     }
+    return (err as Error)?.name === 'TimeoutError' || err instanceof TypeError;
+}
 
-    return { baseUrl: baseUrl.replace(/\/$/, ''), apiKey };
+/** Wait `ms`, or reject with the signal's reason as soon as it is aborted */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
 }
 
 /**
- * Send a message to an Archestra agent via A2A protocol and get a response.
+ * Send a message to an agent via its configured provider and get a response.
+ * Each attempt is bounded by the agent's timeout; retryable failures are
+ * retried with exponential backoff. Fails fast while the agent's circuit is open.
+ * With a conversation, the call continues its contextId and can be cancelled
+ * through cancelAgentCalls. Retries and the reply's token usage (reported by
+ * the provider, or estimated) are written to `stats` when given.
  */
 export async function sendToAgent(
-    agentId: string,
-    messages: { role: string; content: string }[]
+    agent: AgentConfig,
+    messages: ChatMessage[],
+    conversation?: Conversation,
+    stats?: { retries: number; usage?: TokenUsage }
 ): Promise<string> {
-    const { baseUrl, apiKey } = getConfig();
-
-    // A2A endpoint: /v1/a2a/{agentId}
-    const url = `${baseUrl}/v1/a2a/${agentId}`;
-
-    // Combine all messages into a single text prompt for the agent
-    const combinedText = messages
-        .map(m => m.content)
-        .join('\n\n');
-
-    console.log(`  → Sending to agent ${agentId.substring(0, 8)}...`);
-
-    // A2A JSON-RPC 2.0 request
-    const body = {
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method: 'message/send',
-        params: {
-            message: {
-                parts: [{ kind: 'text', text: combinedText }],
-            },
-        },
-    };
+    const provider = getProvider(agent.provider);
+    const { retries, baseDelayMs } = getRetryConfig();
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(body),
-    });
-    if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`  ✗ A2A API error (${response.status}):`, errorText);
-        throw new Error(`Archestra A2A error (${response.status}): ${errorText}`);
-    }
+    let probing = assertCircuitClosed(agent);
 
-    const data = await response.json() as Record<string, unknown>;
-    console.log(`  ✓ Agent responded`);
+    const controller = new AbortController();
+    if (conversation) (conversation.controllers ??= new Set()).add(controller);
+
+    try {
+        for (let attempt = 0; ; attempt++) {
+            console.log(`  → Sending to ${agent.role} (${provider.name}:${agent.id.substring(0, 8)})${attempt > 0 ? ` [retry ${attempt}/${retries}]` : ''}...`);
+
+            try {
+                const reply = await provider.send(agent, {
+                    messages,
+                    signal: AbortSignal.any([controller.signal, AbortSignal.timeout(agent.timeoutMs)]),
+                    contextId: provider.supportsConversations ? conversation?.contextId : undefined,
+                });
+                recordSuccess(agent);
+                if (conversation && reply.contextId) conversation.contextId = reply.contextId;
+                if (stats) {
+                    stats.usage = reply.usage
+                        ? { ...reply.usage, estimated: false }
+                        : estimateUsage(messages.map(m => m.content).join('\n\n'), reply.text);
+                }
+                console.log(`  ✓ Agent responded`);
+                return reply.text;
+            } catch (err) {
+                // Cancelled on purpose: not the agent's fault, never retried
+                if (controller.signal.aborted) {
+                    if (probing) releaseProbe(agent);
+                    throw controller.signal.reason as Error;
+                }
 
-    // Extract text from A2A JSON-RPC response
-    return extractA2AResponse(data);
+                const error = (err as Error).name === 'TimeoutError'
+                    ? new Error(`${agent.role} agent timed out after ${agent.timeoutMs}ms`)
+                    : err as Error;
+                recordFailure(agent, error);
+
+                if (attempt >= retries || !isRetryable(err)) throw error;
+
+                // Stop retrying as soon as the breaker trips
+                if (assertCircuitClosed(agent)) probing = true;
+
+                if (stats) stats.retries += 1;
+                const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+                console.warn(`  ⚠ ${agent.role} call failed (${error.message}), retrying in ${Math.round(delay)}ms`);
+                try {
+                    await sleep(delay, controller.signal);
+                } catch (reason) {
+                    // Cancelled while backing off
+                    if (probing) releaseProbe(agent);
+                    throw reason;
+                }
+            }
+        }
+    } finally {
+        conversation?.controllers?.delete(controller);
+    }
 }
 
 /**
- * Send the full interview context to an agent and ask for an update.
- * The agent is expected to return a JSON object (partial or full session update).
+ * Number of times an agent gets to produce a valid reply (first try + repairs)
+ * before the caller falls back. Configurable via AGENT_MAX_ATTEMPTS.
  */
-export async function sendContextToAgent<T>(
-    agentId: string,
+function getMaxAttempts(): number {
+    const value = Number(process.env.AGENT_MAX_ATTEMPTS);
+    return Number.isInteger(value) && value > 0 ? value : 3;
+}
+
+/**
+ * Build the prompt for this turn. A fresh conversation gets the full session;
+ * a continued one only gets what changed since the agent's last turn.
+ */
+function buildContextPrompt(
     context: Record<string, unknown>,
-    instruction: string
-): Promise<T> {
-    const prompt = `
+    instruction: string,
+    conversation: Conversation,
+    conversational: boolean
+): string {
+    let contextBlock: string;
+    if (conversational && conversation.contextId && conversation.lastContext) {
+        const changes = diffContext(conversation.lastContext, context);
+        contextBlock = `
+CONTEXT UPDATE (changes since your last turn; questions appear only if new or changed):
+${changes ? JSON.stringify(changes, null, 2) : 'No changes.'}
+`;
+    } else {
+        contextBlock = `
 SYSTEM CONTEXT:
 ${JSON.stringify(context, null, 2)}
+`;
+    }
 
+    return `
+${UNTRUSTED_INPUT_NOTICE}
+${contextBlock}
 INSTRUCTION:
 ${instruction}
 
 Respond with ONLY a JSON object representing the result/update.
 `;
+}
 
-    const responseText = await sendToAgent(agentId, [
-        { role: 'user', content: prompt }
-    ]);
-
-    return parseAgentJSON<T>(responseText);
+export interface ContextCallOptions {
+    /** Question the agent is asked about; kept intact longest when compacting */
+    focusQuestionId?: number;
+    /** Template that produced `instruction`, recorded in the trace */
+    promptVersion?: string;
+    /** Ensemble member index; members above 0 use their own conversation */
+    member?: number;
 }
 
 /**
- * Extract text content from an A2A JSON-RPC response.
- *
- * Expected format:
- * {
- *   "jsonrpc": "2.0",
- *   "id": ...,
- *   "result": {
- *     "message": {
- *       "parts": [{ "kind": "text", "text": "..." }]
- *     }
- *   }
- * }
+ * Send the interview context to an agent and ask for an update.
+ * The context is compacted to the agent's budget first. The reply is parsed
+ * and validated against `schema`; when it fails, the agent is re-prompted with
+ * the validation errors. Throws after the last attempt so the caller can use
+ * its fallback. Every attempt is recorded in the session's agent trace and its
+ * token usage added to the session. Once the session budget is spent the call
+ * goes to the role's cheaper budget agent, or is refused when there is none.
  */
-function extractA2AResponse(data: Record<string, unknown>): string {
-    // Check for JSON-RPC error
-    if (data.error) {
-        const err = data.error as Record<string, unknown>;
-        throw new Error(`A2A error: ${err.message || JSON.stringify(err)}`);
+export async function sendContextToAgent<T>(
+    primaryAgent: AgentConfig,
+    session: InterviewSession,
+    instruction: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    options: ContextCallOptions = {}
+): Promise<T> {
+    const agent = selectAgentWithinBudget(primaryAgent, session);
+    const conversational = getProvider(agent.provider).supportsConversations;
+    const conversation = getConversation(session.id, agent.role, options.member);
+
+    const { context, report } = buildAgentContext(session, agent.contextBudget, options.focusQuestionId);
+    if (report.droppedChars > 0) {
+        console.log(`  ✂ ${agent.role} context: ${report.originalChars} → ${report.finalChars} chars (budget ${report.budget}; ${report.truncatedFields.length} field(s) truncated, ${report.summarisedQuestions.length} question(s) summarised, ${report.omittedQuestions.length} omitted)${report.overBudget ? ' — still over budget' : ''}`);
     }
 
-    // Try to get result.message.parts[].text
-    const result = data.result as Record<string, unknown> | undefined;
-    if (result) {
-        // Direct artifacts/message in result
-        const message = result.message as Record<string, unknown> | undefined;
-        if (message) {
-            const parts = message.parts as Array<Record<string, unknown>> | undefined;
-            if (parts && parts.length > 0) {
-                const textParts = parts
-                    .filter(p => p.kind === 'text' && typeof p.text === 'string')
-                    .map(p => p.text as string);
-                if (textParts.length > 0) {
-                    return textParts.join('\n');
-                }
-            }
+    let messages: ChatMessage[] = [
+        { role: 'user', content: buildContextPrompt(context, instruction, conversation, conversational) }
+    ];
+    const maxAttempts = getMaxAttempts();
+    let errors: string[] = [];
+    const trace = startTrace(session.id, agent, {
+        promptVersion: options.promptVersion,
+        context: report,
+        ensembleMember: options.member,
+    });
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const traced: AgentTraceAttempt = {
+            attempt,
+            prompt: messages.map(m => m.content).join('\n\n'),
+            parse: 'no-response',
+            retries: 0,
+            latencyMs: 0,
+        };
+        trace.attempts.push(traced);
+        const started = Date.now();
+
+        let responseText: string;
+        try {
+            responseText = await sendToAgent(agent, messages, conversation, traced);
+        } catch (err) {
+            traced.latencyMs = Date.now() - started;
+            finishTrace(trace, 'error', (err as Error).message);
+            // The provider-side conversation may be gone; start fresh next time
+            resetConversation(conversation);
+            throw err;
+        }
+        conversation.lastContext = context;
+        traced.latencyMs = Date.now() - started;
+        traced.rawResponse = responseText;
+        if (traced.usage) {
+            traced.costUsd = costOf(agent, traced.usage);
+            recordAgentUsage(session.id, agent.role, traced.usage, traced.costUsd);
         }
 
-        // Maybe result itself has parts
-        const resultParts = result.parts as Array<Record<string, unknown>> | undefined;
-        if (resultParts && resultParts.length > 0) {
-            const textParts = resultParts
-                .filter(p => p.kind === 'text' && typeof p.text === 'string')
-                .map(p => p.text as string);
-            if (textParts.length > 0) {
-                return textParts.join('\n');
+        try {
+            const parsed = schema.safeParse(parseAgentJSON<unknown>(responseText));
+            if (parsed.success) {
+                traced.parse = 'ok';
+                finishTrace(trace, 'success');
+                return parsed.data;
             }
+            errors = formatIssues(parsed.error);
+        } catch (err) {
+            errors = [(err as Error).message];
         }
+        traced.parse = 'invalid';
+        traced.errors = errors;
+
+        console.warn(`  ⚠ ${agent.role} reply invalid (attempt ${attempt}/${maxAttempts}): ${errors.join('; ')}`);
 
-        // Result might be a string directly
-        if (typeof result.text === 'string') return result.text;
-        if (typeof result.content === 'string') return result.content;
+        const repair: ChatMessage = { role: 'user', content: buildRepairPrompt(errors) };
+        messages = conversational && conversation.contextId
+            // The agent still has its previous reply in the conversation
+            ? [repair]
+            : [...messages, { role: 'assistant', content: responseText }, repair];
     }
 
-    // Fallback: stringify the entire response for debugging
-    console.warn('  ⚠ Unknown A2A response format:', JSON.stringify(data).substring(0, 300));
-    return JSON.stringify(data);
+    const message = `${agent.role} reply failed validation after ${maxAttempts} attempts: ${errors.join('; ')}`;
+    finishTrace(trace, 'invalid', message);
+    throw new Error(message);
+}
+
+/**
+ * The agent to call given the session's spend so far: the configured one while
+ * within budget, then the role's budget agent. Without one the call is refused
+ * so the route falls back to its deterministic answer.
+ */
+function selectAgentWithinBudget(agent: AgentConfig, session: InterviewSession): AgentConfig {
+    const violation = getBudgetViolation(session);
+    if (!violation) return agent;
+
+    const cheaper = getBudgetAgent(agent);
+    if (!cheaper) throw new Error(`Session ${violation}; ${agent.role} call skipped`);
+
+    console.log(`  💸 ${agent.role} switched to budget agent (${cheaper.provider}:${cheaper.id.substring(0, 8)})`);
+    return cheaper;
+}
+
+function buildRepairPrompt(errors: string[]): string {
+    return `
+Your previous reply could not be accepted.
+
+VALIDATION ERRORS:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Fix these errors and respond again with ONLY the corrected JSON object. Do not add any other text.
+`;
 }
 
 /**
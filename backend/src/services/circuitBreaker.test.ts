@@ -0,0 +1,62 @@
+/**
+ * Circuit breaker tests
+ */
+import { beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AgentConfig } from './agents.js';
+import { assertCircuitClosed, getBreakerStatuses, recordFailure, recordSuccess, releaseProbe } from './circuitBreaker.js';
+
+process.env.AGENT_BREAKER_THRESHOLD = '2';
+process.env.AGENT_BREAKER_COOLDOWN_MS = '0';
+
+let agents = 0;
+
+function newAgent(): AgentConfig {
+    agents += 1;
+    return { role: 'evaluator', provider: 'mock', id: `evaluator-${agents}` } as AgentConfig;
+}
+
+function trip(agent: AgentConfig): void {
+    recordFailure(agent, new Error('502 Bad Gateway'));
+    recordFailure(agent, new Error('502 Bad Gateway'));
+}
+
+describe('half-open circuit', () => {
+    beforeEach(() => {
+        for (const method of ['log', 'warn'] as const) mock.method(console, method, () => {});
+    });
+
+    it('lets one trial call through and fails the others fast while it runs', () => {
+        const agent = newAgent();
+        trip(agent);
+
+        assert.equal(assertCircuitClosed(agent), true, 'the first call after the cooldown is the trial');
+        assert.throws(() => assertCircuitClosed(agent), /waiting on its trial call/);
+        assert.throws(() => assertCircuitClosed(agent), /waiting on its trial call/);
+
+        recordSuccess(agent);
+        assert.equal(assertCircuitClosed(agent), false);
+        assert.equal(getBreakerStatuses().find(b => b.key.endsWith(agent.id))!.state, 'closed');
+    });
+
+    it('reopens when the trial call fails', () => {
+        const agent = newAgent();
+        trip(agent);
+
+        assertCircuitClosed(agent);
+        recordFailure(agent, new Error('502 Bad Gateway'));
+        const breaker = getBreakerStatuses().find(b => b.key.endsWith(agent.id))!;
+        assert.equal(breaker.state, 'open');
+        assert.equal(breaker.probeInFlight, undefined);
+    });
+
+    it('hands the trial to the next call when the trial call is cancelled', () => {
+        const agent = newAgent();
+        trip(agent);
+
+        assertCircuitClosed(agent);
+        releaseProbe(agent);
+        assert.equal(assertCircuitClosed(agent), true);
+        assert.throws(() => assertCircuitClosed(agent), /waiting on its trial call/);
+    });
+});
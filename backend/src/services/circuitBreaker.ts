@@ -0,0 +1,116 @@
+/**
+ * Circuit Breakers
+ * One breaker per agent. After repeated transport failures the breaker opens
+ * and calls fail fast, so the routes go straight to their fallback instead of
+ * making the candidate wait on a dead agent. After a cooldown one trial call
+ * is let through (half-open) while the others keep failing fast; success
+ * closes the breaker again, failure reopens it.
+ */
+import type { AgentConfig } from './agents.js';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerStatus {
+    key: string;
+    role: AgentConfig['role'];
+    state: BreakerState;
+    consecutiveFailures: number;
+    totalFailures: number;
+    totalSuccesses: number;
+    openedAt?: string;
+    lastError?: string;
+    /** Half-open: the trial call is still running */
+    probeInFlight?: boolean;
+}
+
+function getThreshold(): number {
+    const value = Number(process.env.AGENT_BREAKER_THRESHOLD);
+    return Number.isInteger(value) && value > 0 ? value : 5;
+}
+
+function getCooldownMs(): number {
+    const value = Number(process.env.AGENT_BREAKER_COOLDOWN_MS);
+    return Number.isFinite(value) && value >= 0 ? value : 30_000;
+}
+
+const breakers = new Map<string, BreakerStatus>();
+
+function breakerKey(agent: AgentConfig): string {
+    return `${agent.role}:${agent.provider}:${agent.id}`;
+}
+
+function getBreaker(agent: AgentConfig): BreakerStatus {
+    const key = breakerKey(agent);
+    let breaker = breakers.get(key);
+    if (!breaker) {
+        breaker = { key, role: agent.role, state: 'closed', consecutiveFailures: 0, totalFailures: 0, totalSuccesses: 0 };
+        breakers.set(key, breaker);
+    }
+    return breaker;
+}
+
+/**
+ * Throw if the agent's breaker is open, or half-open with its trial call still
+ * running. Moves an open breaker to half-open once its cooldown has elapsed,
+ * letting the caller make the trial call. Returns true for that caller.
+ */
+export function assertCircuitClosed(agent: AgentConfig): boolean {
+    const breaker = getBreaker(agent);
+    if (breaker.state === 'closed') return false;
+
+    if (breaker.state === 'half-open') {
+        if (breaker.probeInFlight) {
+            throw new Error(`Circuit half-open for ${agent.role} agent, waiting on its trial call`);
+        }
+        breaker.probeInFlight = true;
+        return true;
+    }
+
+    const openedAt = breaker.openedAt ? new Date(breaker.openedAt).getTime() : 0;
+    if (Date.now() - openedAt >= getCooldownMs()) {
+        breaker.state = 'half-open';
+        breaker.probeInFlight = true;
+        console.log(`  ◐ Circuit half-open for ${agent.role}, trying one call`);
+        return true;
+    }
+
+    throw new Error(`Circuit open for ${agent.role} agent (last error: ${breaker.lastError || 'unknown'})`);
+}
+
+/**
+ * The trial call ended without telling whether the agent works (it was
+ * cancelled): the next call makes the trial instead.
+ */
+export function releaseProbe(agent: AgentConfig): void {
+    getBreaker(agent).probeInFlight = undefined;
+}
+
+export function recordSuccess(agent: AgentConfig): void {
+    const breaker = getBreaker(agent);
+    if (breaker.state !== 'closed') {
+        console.log(`  ● Circuit closed for ${agent.role}`);
+    }
+    breaker.state = 'closed';
+    breaker.consecutiveFailures = 0;
+    breaker.totalSuccesses += 1;
+    breaker.openedAt = undefined;
+    breaker.probeInFlight = undefined;
+}
+
+export function recordFailure(agent: AgentConfig, error: Error): void {
+    const breaker = getBreaker(agent);
+    breaker.consecutiveFailures += 1;
+    breaker.totalFailures += 1;
+    breaker.lastError = error.message.substring(0, 200);
+    breaker.probeInFlight = undefined;
+
+    if (breaker.state === 'half-open' || breaker.consecutiveFailures >= getThreshold()) {
+        breaker.state = 'open';
+        breaker.openedAt = new Date().toISOString();
+        console.warn(`  ○ Circuit OPEN for ${agent.role} after ${breaker.consecutiveFailures} consecutive failures`);
+    }
+}
+
+export function getBreakerStatuses(): BreakerStatus[] {
+    return Array.from(breakers.values()).map(b => ({ ...b }));
+}
@@ -0,0 +1,174 @@
+/**
+ * Context Budget Manager
+ * Builds the session context sent to an agent within a character budget
+ * (~4 characters per token). Compaction happens oldest-first, in steps:
+ *   1. truncate long fields (answers, code, question text) with a marker
+ *   2. summarise older questions down to scores and briefs
+ *   3. omit the oldest summaries entirely
+ *   4. truncate the question the agent is working on
+ * The "previously asked questions" list is always kept so the interviewer can
+ * avoid repeats, and a report says how much was dropped. Candidate answers
+ * are then fenced as untrusted input.
+ */
+import { fenceUntrusted } from './promptInjection.js';
+import type { InterviewSession, QuestionRecord } from './sessionManager.js';
+
+export interface ContextBudgetReport {
+    budget: number;
+    originalChars: number;
+    finalChars: number;
+    droppedChars: number;
+    truncatedFields: string[];
+    summarisedQuestions: number[];
+    omittedQuestions: number[];
+    /** Still over budget after every compaction step */
+    overBudget: boolean;
+}
+
+export interface AgentContext {
+    context: Record<string, unknown>;
+    report: ContextBudgetReport;
+}
+
+type ContextQuestion = Partial<QuestionRecord> & { id: number; summarised?: boolean };
+
+// Field limit applied to older questions in step 1
+const FIELD_LIMIT = 600;
+// The focus question's answer is never cut below this
+const MIN_FOCUS_CHARS = 500;
+const LONG_FIELDS = ['text', 'answer', 'starterCode'] as const;
+
+function measure(context: Record<string, unknown>): number {
+    // Same formatting as the prompt
+    return JSON.stringify(context, null, 2).length;
+}
+
+export function truncateText(value: string, limit: number): string {
+    if (value.length <= limit) return value;
+    const dropped = value.length - limit;
+    return `${value.substring(0, limit)}…[truncated ${dropped} chars]`;
+}
+
+function truncateFields(question: ContextQuestion, limit: number, truncated: string[]): boolean {
+    let changed = false;
+    for (const field of LONG_FIELDS) {
+        const value = question[field];
+        if (typeof value === 'string' && value.length > limit && !value.endsWith(' chars]')) {
+            question[field] = truncateText(value, limit);
+            truncated.push(`Q${question.id}.${field}`);
+            changed = true;
+        }
+    }
+    return changed;
+}
+
+function summarise(question: ContextQuestion): ContextQuestion {
+    return {
+        id: question.id,
+        type: question.type,
+        title: question.title || truncateText(question.text || '', 80),
+        difficulty: question.difficulty,
+        skipped: question.skipped,
+        answer: question.answer ? truncateText(question.answer, 160) : undefined,
+        evaluation: question.evaluation && {
+            score: question.evaluation.score,
+            nextDifficulty: question.evaluation.nextDifficulty,
+            strengths: [],
+            weaknesses: [],
+            brief: question.evaluation.brief,
+        },
+        codeReview: question.codeReview && {
+            score: question.codeReview.score,
+            correctness: question.codeReview.correctness,
+            timeComplexity: question.codeReview.timeComplexity,
+            spaceComplexity: question.codeReview.spaceComplexity,
+            strengths: [],
+            issues: [],
+            brief: question.codeReview.brief,
+        },
+        summarised: true,
+    };
+}
+
+/**
+ * Build the context for one agent call.
+ * `focusQuestionId` is the question the agent is asked about; it and its
+ * follow-ups are compacted last.
+ */
+export function buildAgentContext(
+    session: InterviewSession,
+    budget: number,
+    focusQuestionId?: number
+): AgentContext {
+    // Snapshot: the session object is mutated in place after this call
+    const snapshot = JSON.parse(JSON.stringify(session)) as InterviewSession;
+    const questions = snapshot.questions as ContextQuestion[];
+
+    // Token accounting and activity timestamps are bookkeeping for us, not interview context
+    const { usage: _usage, lastActivityAt: _lastActivityAt, ...interview } = snapshot;
+    const context: Record<string, unknown> = {
+        ...interview,
+        previouslyAskedQuestions: session.questions.map(q => q.title || truncateText(q.text, 80)),
+    };
+
+    const originalChars = measure(context);
+    const truncatedFields: string[] = [];
+    const summarisedQuestions: number[] = [];
+    const omittedQuestions: number[] = [];
+    const fits = () => measure(context) <= budget;
+
+    // Oldest first; the focus question is handled separately, its follow-ups are kept whole
+    const inFocus = (q: ContextQuestion) => focusQuestionId !== undefined
+        && (q.id === focusQuestionId || q.parentId === focusQuestionId);
+    const older = () => questions.filter(q => !inFocus(q));
+
+    // 1. Truncate long fields on older questions
+    for (const question of older()) {
+        if (fits()) break;
+        truncateFields(question, FIELD_LIMIT, truncatedFields);
+    }
+
+    // 2. Summarise older questions
+    for (const question of older()) {
+        if (fits()) break;
+        if (question.summarised) continue;
+        questions[questions.indexOf(question)] = summarise(question);
+        summarisedQuestions.push(question.id);
+    }
+
+    // 3. Omit the oldest summaries (their titles stay in previouslyAskedQuestions)
+    for (const question of older()) {
+        if (fits()) break;
+        questions.splice(questions.indexOf(question), 1);
+        omittedQuestions.push(question.id);
+        context.omittedQuestionIds = omittedQuestions;
+    }
+
+    // 4. Truncate the focus question to whatever is left
+    const focus = questions.find(q => q.id === focusQuestionId);
+    if (focus && !fits()) {
+        const overflow = measure(context) - budget;
+        const longest = Math.max(...LONG_FIELDS.map(f => (focus[f] as string | undefined)?.length ?? 0));
+        truncateFields(focus, Math.max(MIN_FOCUS_CHARS, longest - overflow - 40), truncatedFields);
+    }
+
+    // Fence candidate answers last so compaction never cuts a fence marker
+    for (const question of questions) {
+        if (question.answer) question.answer = fenceUntrusted(question.answer);
+    }
+
+    const finalChars = measure(context);
+    return {
+        context,
+        report: {
+            budget,
+            originalChars,
+            finalChars,
+            droppedChars: Math.max(0, originalChars - finalChars),
+            truncatedFields,
+            summarisedQuestions,
+            omittedQuestions,
+            overBudget: finalChars > budget,
+        },
+    };
+}
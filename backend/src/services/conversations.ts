@@ -0,0 +1,131 @@
+/**
+ * Agent Conversations
+ * Each agent keeps one provider-side conversation (A2A contextId) per session.
+ * The first turn carries the full context; later turns only carry what changed
+ * since the agent last saw the session. In-flight calls are tracked so they
+ * can be cancelled when the candidate leaves.
+ */
+import type { AgentRole } from './agents.js';
+
+export interface Conversation {
+    contextId?: string;
+    /** Context as of the agent's last successful turn */
+    lastContext?: Record<string, unknown>;
+    /** One per call in flight (overlapping requests can share a conversation) */
+    controllers?: Set<AbortController>;
+}
+
+// Keyed by role, or `role#n` for the extra members of an evaluator ensemble
+const conversations = new Map<string, Record<string, Conversation>>();
+
+/**
+ * The conversation for a role in a session. Ensemble members other than the
+ * first (`member` > 0) get their own, so each run judges independently.
+ */
+export function getConversation(sessionId: string, role: AgentRole, member = 0): Conversation {
+    let bySession = conversations.get(sessionId);
+    if (!bySession) {
+        bySession = {};
+        conversations.set(sessionId, bySession);
+    }
+    return bySession[member > 0 ? `${role}#${member}` : role] ??= {};
+}
+
+/**
+ * Forget the conversation so the next turn starts over with the full context.
+ */
+export function resetConversation(conversation: Conversation): void {
+    conversation.contextId = undefined;
+    conversation.lastContext = undefined;
+}
+
+/**
+ * The reason an agent call was aborted by cancelAgentCalls. Callers rethrow it
+ * instead of falling back: the candidate is gone, nothing should be recorded.
+ */
+export class AgentCallCancelledError extends Error {
+    constructor() {
+        super('Agent call cancelled: candidate left the interview');
+        this.name = 'AgentCallCancelledError';
+    }
+}
+
+/**
+ * Abort every in-flight agent call for the session. Providers cancel the
+ * remote task behind an aborted call themselves. Returns how many calls were
+ * cancelled.
+ */
+export function cancelAgentCalls(sessionId: string): number {
+    const bySession = conversations.get(sessionId);
+    if (!bySession) return 0;
+
+    let cancelled = 0;
+    for (const conversation of Object.values(bySession)) {
+        for (const controller of conversation.controllers ?? []) {
+            controller.abort(new AgentCallCancelledError());
+            cancelled++;
+        }
+    }
+    return cancelled;
+}
+
+export function endConversations(sessionId: string): void {
+    conversations.delete(sessionId);
+}
+
+// ─── Context diffs ──────────────────────────────────────
+
+type Keyed = { id?: unknown };
+
+/**
+ * Return only what changed between two contexts: top-level fields whose value
+ * differs, and for arrays of records with an `id` (questions) only the records
+ * that are new or changed. Returns undefined when nothing changed.
+ */
+export function diffContext(
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>
+): Record<string, unknown> | undefined {
+    const changes: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(next)) {
+        const before = previous[key];
+        if (JSON.stringify(before) === JSON.stringify(value)) continue;
+
+        if (Array.isArray(value) && Array.isArray(before) && value.every(v => v && typeof v === 'object' && 'id' in v)) {
+            const beforeById = new Map((before as Keyed[]).map(item => [item.id, JSON.stringify(item)]));
+            changes[key] = (value as Keyed[]).filter(item => beforeById.get(item.id) !== JSON.stringify(item));
+        } else {
+            changes[key] = value;
+        }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+/**
+ * Inverse of diffContext: merge an update into the full context.
+ */
+export function applyContextUpdate(
+    base: Record<string, unknown>,
+    update: Record<string, unknown>
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = { ...base };
+
+    for (const [key, value] of Object.entries(update)) {
+        const before = base[key];
+        if (Array.isArray(value) && Array.isArray(before)) {
+            const items = [...before] as Keyed[];
+            for (const item of value as Keyed[]) {
+                const index = items.findIndex(existing => existing.id === item.id);
+                if (index === -1) items.push(item);
+                else items[index] = item;
+            }
+            merged[key] = items;
+        } else {
+            merged[key] = value;
+        }
+    }
+
+    return merged;
+}
@@ -0,0 +1,168 @@
+/**
+ * Evaluator Ensemble
+ * Scores a video answer with several evaluator runs (the same agent K times,
+ * or different agents/providers) and combines them: median score, union of
+ * strengths and weaknesses. Answers whose runs disagree by more than the
+ * margin are flagged for human review in the final analysis.
+ */
+import type { AgentConfig } from './agents.js';
+import { evaluatorDeltaSchemaFor } from './agentSchemas.js';
+import { getOwnedEvaluation, type OwnedEvaluation } from './agentDeltas.js';
+import { sendContextToAgent } from './archestra.js';
+import { AgentCallCancelledError } from './conversations.js';
+import type { RenderedPrompt } from './promptRegistry.js';
+import { getScoringRubric } from './rubrics.js';
+import { recordEvaluation, type Difficulty, type InterviewSession } from './sessionManager.js';
+
+export interface EnsembleRun {
+    /** `provider:agentId` of the run */
+    agent: string;
+    score: number;
+    nextDifficulty: Difficulty;
+}
+
+export interface EvaluationEnsemble {
+    runs: EnsembleRun[];
+    failedRuns: number;
+    /** Highest minus lowest score across the runs */
+    spread: number;
+    margin: number;
+    needsReview: boolean;
+}
+
+export interface ReviewFlag {
+    questionId: number;
+    question: string;
+    scores: number[];
+    spread: number;
+    margin: number;
+}
+
+const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard'];
+
+function getDisagreementMargin(): number {
+    const value = Number(process.env.EVALUATOR_DISAGREEMENT_MARGIN);
+    return Number.isFinite(value) && value >= 0 ? value : 20;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** Same point worded the same way (modulo case/whitespace) is listed once */
+function union(lists: string[][]): string[] {
+    const seen = new Map<string, string>();
+    for (const item of lists.flat()) {
+        const key = item.trim().toLowerCase();
+        if (key && !seen.has(key)) seen.set(key, item.trim());
+    }
+    return [...seen.values()];
+}
+
+/**
+ * Combine the evaluations of the successful runs into one.
+ * The brief and criterion breakdown come from the run closest to the median
+ * score; the next difficulty is the lower-middle of the runs' suggestions.
+ */
+export function combineEvaluations(
+    runs: Array<{ agent: AgentConfig; evaluation: OwnedEvaluation }>,
+    failedRuns: number,
+    margin: number
+): OwnedEvaluation & { ensemble: EvaluationEnsemble } {
+    const scores = runs.map(r => r.evaluation.score);
+    const score = Math.round(median(scores));
+    const spread = Math.max(...scores) - Math.min(...scores);
+
+    const difficulties = runs
+        .map(r => DIFFICULTY_ORDER.indexOf(r.evaluation.nextDifficulty))
+        .sort((a, b) => a - b);
+    const nextDifficulty = DIFFICULTY_ORDER[difficulties[Math.floor((difficulties.length - 1) / 2)]];
+
+    const closest = runs.reduce((best, run) =>
+        Math.abs(run.evaluation.score - score) < Math.abs(best.evaluation.score - score) ? run : best
+    );
+
+    return {
+        score,
+        nextDifficulty,
+        strengths: union(runs.map(r => r.evaluation.strengths)),
+        weaknesses: union(runs.map(r => r.evaluation.weaknesses)),
+        brief: closest.evaluation.brief,
+        criteria: closest.evaluation.criteria,
+        ...(runs.some(r => r.evaluation.suspect) ? { suspect: true } : {}),
+        ensemble: {
+            runs: runs.map(r => ({
+                agent: `${r.agent.provider}:${r.agent.id}`,
+                score: r.evaluation.score,
+                nextDifficulty: r.evaluation.nextDifficulty,
+            })),
+            failedRuns,
+            spread,
+            margin,
+            needsReview: spread > margin,
+        },
+    };
+}
+
+/**
+ * Run every ensemble member on the answer in parallel and record the combined
+ * evaluation. Failed runs are left out; throws when every run failed or the
+ * calls were cancelled.
+ */
+export async function evaluateWithEnsemble(
+    session: InterviewSession,
+    questionId: number,
+    agents: AgentConfig[],
+    prompt: RenderedPrompt
+): Promise<void> {
+    const question = session.questions.find(q => q.id === questionId);
+    const schema = evaluatorDeltaSchemaFor(question && getScoringRubric(question, prompt.promptVersion));
+    const baseVersion = session.version;
+    const settled = await Promise.allSettled(agents.map(async (agent, member) => {
+        const delta = await sendContextToAgent(agent, session, prompt.text, schema, {
+            focusQuestionId: questionId,
+            promptVersion: prompt.promptVersion,
+            member,
+        });
+        return { agent, ...getOwnedEvaluation(session.id, questionId, delta, prompt.promptVersion) };
+    }));
+
+    const runs = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failures = settled.flatMap(result => result.status === 'rejected' ? [result.reason as Error] : []);
+    // The candidate left: don't record what the runs that finished first said
+    const cancelled = failures.find(err => err instanceof AgentCallCancelledError);
+    if (cancelled) throw cancelled;
+    if (runs.length === 0) {
+        throw new Error(`All ${agents.length} evaluator runs failed: ${failures[0]?.message}`);
+    }
+
+    const combined = combineEvaluations(runs, failures.length, getDisagreementMargin());
+    const { spread, needsReview } = combined.ensemble;
+    console.log(`  ⚖ Ensemble of ${runs.length}/${agents.length} runs: scores ${runs.map(r => r.evaluation.score).join(', ')} → ${combined.score} (spread ${spread})${needsReview ? ' — flagged for review' : ''}`);
+
+    recordEvaluation(session.id, questionId, { ...combined, promptVersion: prompt.promptVersion }, baseVersion, {
+        role: 'evaluator',
+        promptVersion: prompt.promptVersion,
+        questionId,
+        rejected: [...new Set(runs.flatMap(r => r.rejected))],
+    });
+}
+
+/**
+ * Answers whose ensemble runs disagreed beyond the margin, for the analysis.
+ */
+export function getReviewFlags(session: InterviewSession): ReviewFlag[] {
+    return session.questions.flatMap(q => {
+        const ensemble = q.evaluation?.ensemble;
+        if (!ensemble?.needsReview) return [];
+        return [{
+            questionId: q.id,
+            question: q.title || q.text.substring(0, 80),
+            scores: ensemble.runs.map(r => r.score),
+            spread: ensemble.spread,
+            margin: ensemble.margin,
+        }];
+    });
+}
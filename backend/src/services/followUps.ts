@@ -0,0 +1,71 @@
+/**
+ * Follow-up Questions
+ * After a video answer the interviewer may probe further ("why?", "what would
+ * change at 10x scale?") instead of moving on. A follow-up is a question of
+ * its own, linked by `parentId` to the question it probes; the question and
+ * its follow-ups form a thread, scored as a whole after each of its answers.
+ * The interviewer is only asked about a follow-up when that score leaves
+ * something to probe: an answer scored clearly high is complete, one scored
+ * clearly low is out of the candidate's depth. Either way the interview moves
+ * on without the extra agent call.
+ *
+ * Follow-ups do not use up the template's questions. How many a question may
+ * get is its section's `maxFollowUps`, else MAX_FOLLOW_UPS (default 1); 0
+ * turns probing off.
+ */
+import type { InterviewSession, QuestionRecord } from './sessionManager.js';
+
+const DEFAULT_MAX_FOLLOW_UPS = 1;
+
+// Thread scores worth a follow-up, inclusive
+const PROBE_SCORE_RANGE = { min: 40, max: 80 };
+
+/** MAX_FOLLOW_UPS, read when a follow-up is considered */
+export function getDefaultMaxFollowUps(): number {
+    const configured = process.env.MAX_FOLLOW_UPS;
+    if (configured === undefined || configured === '') return DEFAULT_MAX_FOLLOW_UPS;
+    const limit = Number(configured);
+    if (!Number.isInteger(limit) || limit < 0) {
+        throw new Error(`MAX_FOLLOW_UPS must be a whole number of 0 or more (got "${configured}")`);
+    }
+    return limit;
+}
+
+export function isFollowUp(question: QuestionRecord): boolean {
+    return question.parentId !== undefined;
+}
+
+/** The questions the template planned, without follow-ups */
+export function getPlannedQuestions(session: Pick<InterviewSession, 'questions'>): QuestionRecord[] {
+    return session.questions.filter(q => !isFollowUp(q));
+}
+
+/** The question a follow-up probes, or the question itself */
+export function getThreadRoot(session: InterviewSession, question: QuestionRecord): QuestionRecord {
+    return session.questions.find(q => q.id === question.parentId) ?? question;
+}
+
+/** A question followed by its follow-ups, in asking order */
+export function getThread(session: InterviewSession, rootId: number): QuestionRecord[] {
+    return session.questions.filter(q => q.id === rootId || q.parentId === rootId);
+}
+
+/**
+ * How many more follow-ups the interviewer may ask on `root`. Only video
+ * questions are probed.
+ */
+export function getFollowUpsLeft(session: InterviewSession, root: QuestionRecord): number {
+    if (root.type !== 'video' || isFollowUp(root)) return 0;
+    const section = session.sections.find(s => s.id === root.section);
+    const limit = section?.maxFollowUps ?? getDefaultMaxFollowUps();
+    return Math.max(0, limit - (getThread(session, root.id).length - 1));
+}
+
+/**
+ * Whether the thread's score so far leaves something to probe (no score, as
+ * for a skipped question, leaves nothing).
+ */
+export function isWorthProbing(root: QuestionRecord): boolean {
+    const score = root.evaluation?.score;
+    return score !== undefined && score >= PROBE_SCORE_RANGE.min && score <= PROBE_SCORE_RANGE.max;
+}
@@ -0,0 +1,100 @@
+/**
+ * Idempotency Keys
+ * Clients send an `Idempotency-Key` header with /answer, /submit-code and
+ * /complete. The first request with a key runs; a retry with the same key
+ * (double-click, network retry) gets the first response back instead of
+ * running the agents again. A retry that arrives while the first request is
+ * still running waits for it.
+ *
+ * Keys are scoped to the session and kept in memory until the session is
+ * deleted. Only successful responses are kept: a retry after an error (a
+ * version conflict, a failed agent) runs again.
+ */
+import { createHash } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { InterviewAction } from './interviewPhases.js';
+
+interface StoredResponse {
+    status: number;
+    body: unknown;
+}
+
+interface IdempotencyEntry {
+    /** Action plus request body hash: a key may not be reused for another request */
+    fingerprint: string;
+    /** Resolves with the response once the first request finishes (undefined if it failed) */
+    response: Promise<StoredResponse | undefined>;
+}
+
+const entries = new Map<string, IdempotencyEntry>();
+
+const MAX_KEY_LENGTH = 200;
+
+function fingerprintOf(action: InterviewAction, body: unknown): string {
+    return `${action}:${createHash('sha256').update(JSON.stringify(body ?? {})).digest('hex')}`;
+}
+
+/**
+ * Middleware making a route idempotent per `Idempotency-Key` header.
+ * Requests without the header run as usual.
+ */
+export function idempotent(action: InterviewAction) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const key = req.get('Idempotency-Key');
+        const sessionId = req.body?.sessionId;
+        if (!key || typeof sessionId !== 'string') return next();
+
+        if (key.length > MAX_KEY_LENGTH) {
+            res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+            return;
+        }
+
+        const entryKey = `${sessionId}:${key}`;
+        const fingerprint = fingerprintOf(action, req.body);
+        const existing = entries.get(entryKey);
+
+        if (existing) {
+            if (existing.fingerprint !== fingerprint) {
+                res.status(422).json({ error: 'Idempotency-Key was already used for a different request' });
+                return;
+            }
+            const stored = await existing.response;
+            // The first attempt failed and was forgotten: run this one
+            if (!stored) return idempotent(action)(req, res, next);
+
+            console.log(`  ↩ Replaying ${action} for session ${sessionId} (key ${key})`);
+            res.set('Idempotent-Replayed', 'true');
+            res.status(stored.status).json(stored.body);
+            return;
+        }
+
+        let settle!: (stored: StoredResponse | undefined) => void;
+        let settled = false;
+        entries.set(entryKey, { fingerprint, response: new Promise(resolve => { settle = resolve; }) });
+        const finish = (stored: StoredResponse | undefined) => {
+            if (settled) return;
+            settled = true;
+            if (!stored) entries.delete(entryKey);
+            settle(stored);
+        };
+
+        // Capture the body the route sends. A client that disconnected still
+        // gets its key settled here, since the route runs to the end regardless.
+        const json = res.json.bind(res);
+        res.json = body => {
+            finish(res.statusCode >= 400 ? undefined : { status: res.statusCode, body });
+            return json(body);
+        };
+        // Ended without a JSON body: nothing to replay
+        res.on('finish', () => finish(undefined));
+
+        next();
+    };
+}
+
+/** Forget the keys of a deleted session */
+export function clearIdempotencyKeys(sessionId: string): void {
+    for (const entryKey of entries.keys()) {
+        if (entryKey.startsWith(`${sessionId}:`)) entries.delete(entryKey);
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Interview Phases
+ * The session state machine: which phase may follow which, and which route
+ * actions each phase accepts. Served at GET /api/interview/phases; what a
+ * given session accepts right now (the phase plus its questions) comes with
+ * GET /api/interview/session/:id, so the frontend never repeats the checks.
+ *
+ *   created → video ⇄ coding → analysing → completed
+ *   (templates can mix video and coding sections in any order;
+ *    video-only templates go video → analysing)
+ *   (any phase before completed) → abandoned | expired
+ *   analysing → video | coding when the analysis is cancelled (/leave), so
+ *   /complete can be retried
+ */
+import { getPlannedQuestions } from './followUps.js';
+import { getTotalQuestions } from './interviewTemplates.js';
+import type { InterviewSession } from './sessionManager.js';
+
+export type InterviewPhase =
+    | 'created'
+    | 'video'
+    | 'coding'
+    | 'analysing'
+    | 'completed'
+    | 'abandoned'
+    | 'expired';
+
+/** Route actions the candidate can take */
+export type InterviewAction = 'answer' | 'submit-code' | 'complete' | 'resume' | 'leave';
+
+export const PHASE_TRANSITIONS: Record<InterviewPhase, InterviewPhase[]> = {
+    created: ['video', 'coding', 'abandoned', 'expired'],
+    video: ['video', 'coding', 'analysing', 'abandoned', 'expired'],
+    coding: ['coding', 'video', 'analysing', 'abandoned', 'expired'],
+    // A stuck analysis is abandoned by the sweeper like any idle session;
+    // a cancelled one goes back to the phase it started from
+    analysing: ['completed', 'video', 'coding', 'abandoned', 'expired'],
+    completed: [],
+    abandoned: [],
+    expired: [],
+};
+
+export const ACTION_PHASES: Record<InterviewAction, InterviewPhase[]> = {
+    answer: ['video'],
+    'submit-code': ['coding'],
+    complete: ['video', 'coding'],
+    // Ask the question a cancelled answer or submission still owes
+    resume: ['created', 'video', 'coding'],
+    leave: ['created', 'video', 'coding', 'analysing'],
+};
+
+/** Phases in which the candidate is still taking the interview */
+export const IN_PROGRESS_PHASES: InterviewPhase[] = ['created', 'video', 'coding'];
+
+export function isEnded(phase: InterviewPhase): boolean {
+    return PHASE_TRANSITIONS[phase].length === 0;
+}
+
+export function canTransition(from: InterviewPhase, to: InterviewPhase): boolean {
+    return PHASE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Why `action` is not allowed on the session right now, or undefined if it is.
+ * `questionId` is the question the action targets (answer, submit-code).
+ */
+export function getActionViolation(
+    session: InterviewSession,
+    action: InterviewAction,
+    questionId?: number
+): string | undefined {
+    if (!ACTION_PHASES[action].includes(session.phase)) {
+        return `Cannot ${action} while the interview is ${session.phase}`;
+    }
+
+    const pending = session.questions.find(q => q.answer === undefined);
+    if (action === 'complete' || action === 'resume') {
+        if (pending) return `Question ${pending.id} has not been answered yet`;
+        const total = getTotalQuestions(session);
+        const asked = getPlannedQuestions(session).length;
+        if (action === 'resume') {
+            return asked < total ? undefined : `All ${total} questions were already asked`;
+        }
+        return asked < total
+            ? `Only ${asked} of ${total} questions were asked`
+            : undefined;
+    }
+    if (questionId === undefined) return undefined;
+
+    const question = session.questions.find(q => q.id === questionId);
+    if (!question) return undefined; // the route answers 404
+    if (question.answer !== undefined) return `Question ${questionId} was already answered`;
+    const expectedType = action === 'submit-code' ? 'code' : 'video';
+    if (question.type !== expectedType) return `Question ${questionId} is a ${question.type} question`;
+    if (question.id !== pending?.id) return `Question ${questionId} is not the current question`;
+    return undefined;
+}
+
+/**
+ * Every action the session accepts right now. Answer and submit-code are
+ * checked against the question waiting for an answer.
+ */
+export function getAllowedActions(session: InterviewSession): InterviewAction[] {
+    const pending = session.questions.find(q => q.answer === undefined);
+    return (Object.keys(ACTION_PHASES) as InterviewAction[]).filter(action => {
+        if (action === 'answer' || action === 'submit-code') {
+            return pending !== undefined && getActionViolation(session, action, pending.id) === undefined;
+        }
+        return getActionViolation(session, action) === undefined;
+    });
+}
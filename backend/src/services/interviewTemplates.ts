@@ -0,0 +1,231 @@
+/**
+ * Interview Templates
+ * Named interview structures loaded from a JSON file (INTERVIEW_TEMPLATES_PATH,
+ * default backend/interview-templates.json):
+ *
+ *   {
+ *     "default": "standard",
+ *     "templates": {
+ *       "standard": {
+ *         "name": "Standard technical interview",
+ *         "startingDifficulty": "medium",
+ *         "maxDurationMinutes": 60,
+ *         "questionSource": "seeded",
+ *         "sections": [
+ *           { "id": "technical", "name": "Technical", "type": "video", "count": 3, "weight": 2, "maxFollowUps": 2 },
+ *           { "id": "coding", "name": "Coding", "type": "code", "count": 1, "topics": ["..."], "weight": 1, "timeLimitSeconds": 1800 }
+ *         ]
+ *       }
+ *     }
+ *   }
+ *
+ * Questions are asked section by section, in order; video and coding sections
+ * can be mixed in any order.
+ * A session keeps a copy of its template's sections, so editing the file does
+ * not change interviews already running. Without the file, only the built-in
+ * "standard" template exists. The file is validated at startup.
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { difficultySchema, formatIssues } from './agentSchemas.js';
+import { getPlannedQuestions, isFollowUp } from './followUps.js';
+import { questionSourceSchema } from './questionBank.js';
+import type { InterviewSession, QuestionRecord } from './sessionManager.js';
+
+const sectionSchema = z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'lowercase letters, digits and dashes only'),
+    name: z.string().min(1),
+    type: z.enum(['video', 'code']),
+    count: z.number().int().min(1).max(10),
+    /** What the interviewer should ask about in this section (the role profile's topics if empty) */
+    topics: z.array(z.string().min(1)).default([]),
+    /** Relative weight of the section in the overall score */
+    weight: z.number().positive().default(1),
+    /** Time the candidate gets per question */
+    timeLimitSeconds: z.number().int().positive().optional(),
+    /** Follow-ups the interviewer may ask per video question (default MAX_FOLLOW_UPS) */
+    maxFollowUps: z.number().int().min(0).max(5).optional(),
+}).strict();
+
+const templateSchema = z.object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    startingDifficulty: difficultySchema.default('medium'),
+    /** Sessions running longer than this expire (default SESSION_MAX_DURATION_MINUTES) */
+    maxDurationMinutes: z.number().positive().optional(),
+    /** Where questions come from (default QUESTION_SOURCE), see questionBank.ts */
+    questionSource: questionSourceSchema.optional(),
+    sections: z.array(sectionSchema).min(1),
+}).strict();
+
+const templatesFileSchema = z.object({
+    default: z.string(),
+    templates: z.record(templateSchema),
+}).strict();
+
+export type TemplateSection = z.infer<typeof sectionSchema>;
+
+export type InterviewTemplate = z.infer<typeof templateSchema> & { id: string };
+
+const STANDARD_TEMPLATE: InterviewTemplate = {
+    id: 'standard',
+    name: 'Standard technical interview',
+    startingDifficulty: 'medium',
+    sections: [
+        { id: 'technical', name: 'Technical', type: 'video', count: 3, topics: [], weight: 1 },
+        { id: 'coding', name: 'Coding', type: 'code', count: 1, topics: [], weight: 1 },
+    ],
+};
+
+let templates = new Map<string, InterviewTemplate>([[STANDARD_TEMPLATE.id, STANDARD_TEMPLATE]]);
+let defaultTemplateId = STANDARD_TEMPLATE.id;
+
+function getTemplatesPath(): string {
+    const configured = process.env.INTERVIEW_TEMPLATES_PATH;
+    // src/services → backend/interview-templates.json (same depth from dist/services)
+    return configured
+        ? resolve(configured)
+        : fileURLToPath(new URL('../../interview-templates.json', import.meta.url));
+}
+
+/**
+ * Parse and cross-check a templates file. Throws with every problem found.
+ */
+function parseTemplates(raw: string): { templates: Map<string, InterviewTemplate>; defaultId: string } {
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch (err) {
+        throw new Error(`not valid JSON: ${(err as Error).message}`);
+    }
+
+    const parsed = templatesFileSchema.safeParse(json);
+    if (!parsed.success) throw new Error(formatIssues(parsed.error).join('; '));
+
+    const problems: string[] = [];
+    const loaded = new Map<string, InterviewTemplate>();
+    for (const [id, template] of Object.entries(parsed.data.templates)) {
+        const ids = template.sections.map(s => s.id);
+        const duplicate = ids.find((sectionId, index) => ids.indexOf(sectionId) !== index);
+        if (duplicate) problems.push(`templates.${id}: section "${duplicate}" is defined twice`);
+        loaded.set(id, { ...template, id });
+    }
+    if (!loaded.has(parsed.data.default)) {
+        problems.push(`default: unknown template "${parsed.data.default}"`);
+    }
+
+    if (problems.length > 0) throw new Error(problems.join('; '));
+    return { templates: loaded, defaultId: parsed.data.default };
+}
+
+/**
+ * Load and validate the templates file.
+ * Call at startup: an invalid file fails fast. No file means the built-in template.
+ */
+export function loadInterviewTemplates(): void {
+    const path = getTemplatesPath();
+    if (!existsSync(path)) return;
+
+    try {
+        const loaded = parseTemplates(readFileSync(path, 'utf8'));
+        templates = loaded.templates;
+        defaultTemplateId = loaded.defaultId;
+    } catch (err) {
+        throw new Error(`Interview templates ${path}: ${(err as Error).message}`);
+    }
+}
+
+/**
+ * The template with this id, or the default one when no id is given.
+ */
+export function getTemplate(id?: string): InterviewTemplate | undefined {
+    return templates.get(id ?? defaultTemplateId);
+}
+
+export function listTemplates(): InterviewTemplate[] {
+    return [...templates.values()];
+}
+
+export function getDefaultTemplateId(): string {
+    return defaultTemplateId;
+}
+
+/**
+ * Sections of a session created before templates existed:
+ * some technical video questions, then one coding question.
+ */
+export function legacySections(totalVideoQuestions: number): TemplateSection[] {
+    return [
+        { ...STANDARD_TEMPLATE.sections[0], count: totalVideoQuestions },
+        STANDARD_TEMPLATE.sections[1],
+    ];
+}
+
+export function getTotalQuestions(session: Pick<InterviewSession, 'sections'>): number {
+    return session.sections.reduce((total, section) => total + section.count, 0);
+}
+
+/**
+ * The section the question at `index` (0-based, in asking order) belongs to.
+ */
+export function getSectionAt(session: Pick<InterviewSession, 'sections'>, index: number): TemplateSection | undefined {
+    let remaining = index;
+    for (const section of session.sections) {
+        if (remaining < section.count) return section;
+        remaining -= section.count;
+    }
+    return undefined;
+}
+
+/**
+ * The section the next question comes from, or undefined once all were asked.
+ * Follow-ups are not counted.
+ */
+export function getNextSection(session: InterviewSession): TemplateSection | undefined {
+    return getSectionAt(session, getPlannedQuestions(session).length);
+}
+
+export interface SectionScore {
+    section: string;
+    name: string;
+    weight: number;
+    questionsAnswered: number;
+    /** Average of the section's answered question scores */
+    score: number;
+}
+
+function questionScore(question: QuestionRecord): number {
+    return question.evaluation?.score ?? question.codeReview?.score ?? 0;
+}
+
+/**
+ * Per-section average scores, for the sections with at least one answer.
+ */
+export function getSectionScores(session: InterviewSession): SectionScore[] {
+    // Questions asked before templates existed are placed by position
+    const sectionOf = (question: QuestionRecord, index: number) => question.section ?? getSectionAt(session, index)?.id;
+    return session.sections.flatMap(section => {
+        // A follow-up's answer is scored with the question it follows up on
+        const answered = session.questions.filter((q, i) => sectionOf(q, i) === section.id && q.answer !== undefined && !isFollowUp(q));
+        if (answered.length === 0) return [];
+        const total = answered.reduce((sum, q) => sum + questionScore(q), 0);
+        return [{
+            section: section.id,
+            name: section.name,
+            weight: section.weight,
+            questionsAnswered: answered.length,
+            score: Math.round(total / answered.length),
+        }];
+    });
+}
+
+/**
+ * The overall score with each section counted by its weight.
+ */
+export function getWeightedScore(sectionScores: SectionScore[]): number {
+    const totalWeight = sectionScores.reduce((sum, s) => sum + s.weight, 0);
+    if (totalWeight === 0) return 0;
+    return Math.round(sectionScores.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight);
+}
@@ -0,0 +1,217 @@
+/**
+ * Prompt Template Registry
+ * Agent instructions live as versioned template files in backend/prompts/,
+ * named `<id>@<version>.md` with a small frontmatter header:
+ *
+ *   ---
+ *   id: evaluator.answer
+ *   version: v2
+ *   variables: role, company, questionId
+ *   scoring: rubric
+ *   ---
+ *   You are the Evaluator ... Question ID: {{questionId}}
+ *
+ * `scoring: rubric` marks evaluator and code reviewer templates that score per
+ * rubric criterion; versions written before rubrics ask for a plain score.
+ *
+ * The highest version of each template is active unless pinned with
+ * PROMPT_PINS="evaluator.answer=v1,analyst.report=v1". An agent in the agent
+ * registry can pin its own versions, passed to renderPrompt per call.
+ */
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import type { Difficulty } from './sessionManager.js';
+
+// The role profile, as every agent sees it (see roleProfiles.ts)
+interface RoleVariables {
+    role: string;
+    company: string;
+    seniority: string;
+    expectations: string;
+    skills: string;
+}
+
+interface InterviewerVariables extends RoleVariables {
+    difficulty: Difficulty;
+    /** Name of the template section the question is for */
+    section: string;
+    topics: string;
+    /** The question bank entry to adapt, or a note to write a new question */
+    seed: string;
+}
+
+// Variables each template may use
+export interface PromptVariables {
+    'interviewer.first-question': InterviewerVariables;
+    'interviewer.next-question': InterviewerVariables;
+    'interviewer.coding-question': InterviewerVariables;
+    'interviewer.follow-up': RoleVariables & {
+        /** The question being probed (its follow-ups have it as `parentId`) */
+        questionId: number;
+        followUpsLeft: number;
+    };
+    'evaluator.answer': RoleVariables & { questionId: number };
+    'code-reviewer.review': {
+        role: string;
+        company: string;
+        questionId: number;
+        /** Reference solution and test cases of a question bank challenge */
+        reference: string;
+    };
+    'analyst.report': RoleVariables & { totalTime: string };
+    'analyst.partial-report': RoleVariables & {
+        totalTime: string;
+        reason: string;
+        questionsAnswered: number;
+        questionsAsked: number;
+    };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export const PROMPT_IDS: PromptId[] = [
+    'interviewer.first-question',
+    'interviewer.next-question',
+    'interviewer.coding-question',
+    'interviewer.follow-up',
+    'evaluator.answer',
+    'code-reviewer.review',
+    'analyst.report',
+    'analyst.partial-report',
+];
+
+export type PromptScoring = 'rubric' | 'score';
+
+export interface PromptTemplate {
+    id: PromptId;
+    version: string;
+    variables: string[];
+    scoring: PromptScoring;
+    body: string;
+    file: string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    /** `<id>@<version>`, stamped onto whatever the agent produces */
+    promptVersion: string;
+}
+
+// src/services → backend/prompts (same depth from dist/services)
+const PROMPTS_DIR = fileURLToPath(new URL('../../prompts/', import.meta.url));
+
+let templates: Map<PromptId, PromptTemplate> | undefined;
+// Every version on disk, keyed `<id>@<version>`
+let allTemplates = new Map<string, PromptTemplate>();
+
+function parseTemplate(file: string, raw: string): PromptTemplate {
+    const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+    if (!match) throw new Error(`Prompt ${file}: missing frontmatter`);
+
+    const header: Record<string, string> = {};
+    for (const line of match[1].split(/\r?\n/)) {
+        const [key, ...rest] = line.split(':');
+        if (key.trim()) header[key.trim()] = rest.join(':').trim();
+    }
+
+    const id = header.id as PromptId;
+    if (!PROMPT_IDS.includes(id)) throw new Error(`Prompt ${file}: unknown id "${header.id}"`);
+    if (!header.version) throw new Error(`Prompt ${file}: missing version`);
+
+    const variables = (header.variables || '').split(',').map(v => v.trim()).filter(Boolean);
+    const scoring = header.scoring || 'score';
+    if (scoring !== 'rubric' && scoring !== 'score') {
+        throw new Error(`Prompt ${file}: scoring must be "rubric" or "score" (got "${scoring}")`);
+    }
+    const body = match[2].trim();
+
+    // Every placeholder must be declared, so typos fail at startup rather than mid-interview
+    const used = new Set(Array.from(body.matchAll(/\{\{(\w+)\}\}/g), m => m[1]));
+    const undeclared = [...used].filter(v => !variables.includes(v));
+    if (undeclared.length > 0) {
+        throw new Error(`Prompt ${file}: undeclared variables ${undeclared.join(', ')}`);
+    }
+
+    return { id, version: header.version, variables, scoring, body, file };
+}
+
+function compareVersions(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function parsePins(): Map<string, string> {
+    const pins = new Map<string, string>();
+    for (const entry of (process.env.PROMPT_PINS || '').split(',').filter(Boolean)) {
+        const [id, version] = entry.trim().split('=');
+        pins.set(id, version);
+    }
+    return pins;
+}
+
+/**
+ * Load and validate all templates, selecting the active version of each.
+ * Call at startup to fail fast on a broken prompt file.
+ */
+export function loadPromptTemplates(): Map<PromptId, PromptTemplate> {
+    const all = readdirSync(PROMPTS_DIR)
+        .filter(file => file.endsWith('.md'))
+        .map(file => parseTemplate(file, readFileSync(`${PROMPTS_DIR}${file}`, 'utf8')));
+    const pins = parsePins();
+
+    const active = new Map<PromptId, PromptTemplate>();
+    for (const id of PROMPT_IDS) {
+        const versions = all.filter(t => t.id === id).sort((a, b) => compareVersions(a.version, b.version));
+        const pinned = pins.get(id);
+        const chosen = pinned ? versions.find(t => t.version === pinned) : versions[versions.length - 1];
+
+        if (!chosen) {
+            throw new Error(pinned ? `Prompt ${id}@${pinned} is pinned but not found` : `No prompt template for ${id}`);
+        }
+        active.set(id, chosen);
+    }
+
+    templates = active;
+    allTemplates = new Map(all.map(t => [`${t.id}@${t.version}`, t]));
+    return active;
+}
+
+export function hasPromptTemplate(id: string, version: string): boolean {
+    if (!templates) loadPromptTemplates();
+    return allTemplates.has(`${id}@${version}`);
+}
+
+/**
+ * Render a template with its variables. `version` selects a specific version
+ * instead of the active one (an agent's own pin).
+ */
+export function renderPrompt<K extends PromptId>(
+    id: K,
+    variables: PromptVariables[K],
+    version?: string
+): RenderedPrompt {
+    const active = templates ?? loadPromptTemplates();
+    const template = version ? allTemplates.get(`${id}@${version}`) : active.get(id);
+    if (!template) throw new Error(`Prompt ${id}@${version} not found`);
+    const values = variables as Record<string, string | number>;
+
+    const missing = template.variables.filter(v => values[v] === undefined);
+    if (missing.length > 0) {
+        throw new Error(`Prompt ${id}@${template.version}: missing variables ${missing.join(', ')}`);
+    }
+
+    const text = template.body.replace(/\{\{(\w+)\}\}/g, (_, name: string) => String(values[name]));
+    return { text, promptVersion: `${id}@${template.version}` };
+}
+
+/**
+ * How the template that produced a reply (`<id>@<version>`) asks for scores.
+ */
+export function getPromptScoring(promptVersion: string): PromptScoring {
+    if (!templates) loadPromptTemplates();
+    return allTemplates.get(promptVersion)?.scoring ?? 'score';
+}
+
+export function getActivePromptVersions(): Record<string, string> {
+    const active = templates ?? loadPromptTemplates();
+    return Object.fromEntries(Array.from(active.values(), t => [t.id, t.version]));
+}
@@ -0,0 +1,236 @@
+/**
+ * Archestra Provider
+ * Uses the A2A (Agent-to-Agent) JSON-RPC protocol
+ * Endpoint: /v1/a2a/{agentId}
+ */
+import { randomUUID } from 'node:crypto';
+import { ProviderError, type LLMProvider, type ProviderUsage } from './types.js';
+
+interface ArchestraConfig {
+    baseUrl: string;
+    apiKey: string;
+}
+
+function getConfig(): ArchestraConfig {
+    const baseUrl = process.env.ARCHESTRA_BASE_URL;
+    const apiKey = process.env.ARCHESTRA_API_KEY;
+
+    if (!baseUrl || !apiKey) {
+        throw new Error('ARCHESTRA_BASE_URL and ARCHESTRA_API_KEY must be set in .env');
+    }
+
+    return { baseUrl: baseUrl.replace(/\/$/, ''), apiKey };
+}
+
+// Task states after which polling stops
+const TERMINAL_STATES = ['completed', 'canceled', 'failed', 'rejected', 'input-required', 'auth-required'];
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Make one A2A JSON-RPC 2.0 call to an agent.
+ */
+async function callA2A(
+    agentId: string,
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+): Promise<Record<string, unknown>> {
+    const { baseUrl, apiKey } = getConfig();
+
+    // A2A endpoint: /v1/a2a/{agentId}
+    const url = `${baseUrl}/v1/a2a/${agentId}`;
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method, params }),
+        signal,
+    });
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`  ✗ A2A API error (${response.status}):`, errorText);
+        throw new ProviderError(`Archestra A2A error (${response.status}): ${errorText}`, response.status);
+    }
+
+    return await response.json() as Record<string, unknown>;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) return reject(signal.reason);
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        }, { once: true });
+    });
+}
+
+function taskState(result: Record<string, unknown> | undefined): string | undefined {
+    const status = result?.status as Record<string, unknown> | undefined;
+    return status?.state as string | undefined;
+}
+
+export const archestraProvider: LLMProvider = {
+    name: 'archestra',
+    supportsConversations: true,
+
+    async send(agent, { messages, signal, contextId }) {
+        // Combine all messages into a single text prompt for the agent
+        const combinedText = messages
+            .map(m => m.content)
+            .join('\n\n');
+
+        const message = {
+            kind: 'message',
+            role: 'user',
+            messageId: randomUUID(),
+            parts: [{ kind: 'text', text: combinedText }],
+            ...(contextId ? { contextId } : {}),
+        };
+
+        let data = await callA2A(agent.id, 'message/send', { message }, signal);
+        let result = data.result as Record<string, unknown> | undefined;
+
+        // Long-running agents answer with a Task: poll it until it settles
+        if (!data.error && result?.kind === 'task') {
+            const taskId = result.id as string;
+
+            while (!TERMINAL_STATES.includes(taskState(result) || 'completed')) {
+                try {
+                    await wait(POLL_INTERVAL_MS, signal);
+                    data = await callA2A(agent.id, 'tasks/get', { id: taskId }, signal);
+                } catch (err) {
+                    // Timed out or cancelled locally: stop the agent too
+                    if (signal.aborted) void this.cancelTask?.(agent, taskId);
+                    throw err;
+                }
+                if (data.error) break;
+                result = data.result as Record<string, unknown> | undefined;
+            }
+
+            const state = taskState(result);
+            if (state === 'failed' || state === 'rejected' || state === 'canceled') {
+                throw new ProviderError(`A2A task ${taskId} ended in state "${state}"`);
+            }
+        }
+
+        // Extract text from A2A JSON-RPC response
+        return {
+            text: extractA2AResponse(data),
+            contextId: result?.contextId as string | undefined,
+            taskId: (result?.kind === 'task' ? result.id : result?.taskId) as string | undefined,
+            usage: extractA2AUsage(result),
+        };
+    },
+
+    async cancelTask(agent, taskId) {
+        try {
+            await callA2A(agent.id, 'tasks/cancel', { id: taskId }, AbortSignal.timeout(5000));
+            console.log(`  ✗ Cancelled ${agent.role} task ${taskId.substring(0, 8)}`);
+        } catch (err) {
+            console.warn(`  ⚠ Could not cancel ${agent.role} task ${taskId.substring(0, 8)}: ${(err as Error).message}`);
+        }
+    },
+};
+
+/**
+ * Token usage reported in the result's `metadata.usage`, if the agent reports it.
+ * Accepts both camelCase (inputTokens) and OpenAI-style (prompt_tokens) keys.
+ */
+function extractA2AUsage(result: Record<string, unknown> | undefined): ProviderUsage | undefined {
+    const metadata = result?.metadata as Record<string, unknown> | undefined;
+    const usage = metadata?.usage as Record<string, unknown> | undefined;
+    if (!usage) return undefined;
+
+    const promptTokens = usage.inputTokens ?? usage.promptTokens ?? usage.prompt_tokens ?? usage.input_tokens;
+    const completionTokens = usage.outputTokens ?? usage.completionTokens ?? usage.completion_tokens ?? usage.output_tokens;
+    if (typeof promptTokens !== 'number') return undefined;
+    return { promptTokens, completionTokens: typeof completionTokens === 'number' ? completionTokens : 0 };
+}
+
+/**
+ * Extract text content from an A2A JSON-RPC response.
+ *
+ * Expected format:
+ * {
+ *   "jsonrpc": "2.0",
+ *   "id": ...,
+ *   "result": {
+ *     "message": {
+ *       "parts": [{ "kind": "text", "text": "..." }]
+ *     }
+ *   }
+ * }
+ *
+ * A Task result carries its reply in `artifacts[].parts` or `status.message.parts`.
+ */
+export function extractA2AResponse(data: Record<string, unknown>): string {
+    // Check for JSON-RPC error
+    if (data.error) {
+        const err = data.error as Record<string, unknown>;
+        throw new Error(`A2A error: ${err.message || JSON.stringify(err)}`);
+    }
+
+    // Try to get result.message.parts[].text
+    const result = data.result as Record<string, unknown> | undefined;
+    if (result) {
+        // Direct artifacts/message in result
+        const message = result.message as Record<string, unknown> | undefined;
+        if (message) {
+            const parts = message.parts as Array<Record<string, unknown>> | undefined;
+            if (parts && parts.length > 0) {
+                const textParts = parts
+                    .filter(p => p.kind === 'text' && typeof p.text === 'string')
+                    .map(p => p.text as string);
+                if (textParts.length > 0) {
+                    return textParts.join('\n');
+                }
+            }
+        }
+
+        // Maybe result itself has parts
+        const resultParts = result.parts as Array<Record<string, unknown>> | undefined;
+        if (resultParts && resultParts.length > 0) {
+            const textParts = resultParts
+                .filter(p => p.kind === 'text' && typeof p.text === 'string')
+                .map(p => p.text as string);
+            if (textParts.length > 0) {
+                return textParts.join('\n');
+            }
+        }
+
+        // Task: artifacts first, then the final status message
+        if (result.kind === 'task') {
+            const artifacts = result.artifacts as Array<Record<string, unknown>> | undefined;
+            const artifactText = (artifacts || [])
+                .flatMap(a => (a.parts as Array<Record<string, unknown>> | undefined) || [])
+                .filter(p => p.kind === 'text' && typeof p.text === 'string')
+                .map(p => p.text as string);
+            if (artifactText.length > 0) {
+                return artifactText.join('\n');
+            }
+
+            const status = result.status as Record<string, unknown> | undefined;
+            const statusMessage = status?.message as Record<string, unknown> | undefined;
+            const statusParts = (statusMessage?.parts as Array<Record<string, unknown>> | undefined) || [];
+            const statusText = statusParts
+                .filter(p => p.kind === 'text' && typeof p.text === 'string')
+                .map(p => p.text as string);
+            if (statusText.length > 0) {
+                return statusText.join('\n');
+            }
+        }
+
+        // Result might be a string directly
+        if (typeof result.text === 'string') return result.text;
+        if (typeof result.content === 'string') return result.content;
+    }
+
+    // Fallback: stringify the entire response for debugging
+    console.warn('  ⚠ Unknown A2A response format:', JSON.stringify(data).substring(0, 300));
+    return JSON.stringify(data);
+}
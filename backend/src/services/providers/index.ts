@@ -0,0 +1,20 @@
+/**
+ * Provider registry
+ */
+import type { ProviderName } from '../agents.js';
+import type { LLMProvider } from './types.js';
+import { archestraProvider } from './archestra.js';
+import { openaiProvider } from './openai.js';
+import { mockProvider } from './mock.js';
+
+export { ProviderError, type ChatMessage, type LLMProvider } from './types.js';
+
+const providers: Record<ProviderName, LLMProvider> = {
+    archestra: archestraProvider,
+    openai: openaiProvider,
+    mock: mockProvider,
+};
+
+export function getProvider(name: ProviderName): LLMProvider {
+    return providers[name];
+}
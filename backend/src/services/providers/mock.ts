@@ -0,0 +1,17 @@
+/**
+ * Mock Provider
+ * Answers every call locally with the deterministic scripted agents.
+ * Select it with AGENT_PROVIDER=mock (or <ROLE>_PROVIDER=mock).
+ */
+import { runScriptedAgent } from '../scriptedAgents.js';
+import type { LLMProvider } from './types.js';
+
+export const mockProvider: LLMProvider = {
+    name: 'mock',
+    supportsConversations: false,
+
+    async send(agent, { messages }) {
+        const prompt = messages.map(m => m.content).join('\n\n');
+        return { text: runScriptedAgent(agent.role, prompt) };
+    },
+};
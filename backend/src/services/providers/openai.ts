@@ -0,0 +1,68 @@
+/**
+ * OpenAI-compatible Provider
+ * Talks to any endpoint implementing POST {base}/chat/completions
+ * (OpenAI, Azure-style gateways, Ollama, vLLM, LM Studio, ...)
+ */
+import { ProviderError, type LLMProvider } from './types.js';
+
+interface OpenAIConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+}
+
+function getConfig(model?: string): OpenAIConfig {
+    const baseUrl = process.env.OPENAI_BASE_URL;
+    const resolvedModel = model || process.env.OPENAI_MODEL;
+
+    if (!baseUrl || !resolvedModel) {
+        throw new Error('OPENAI_BASE_URL and OPENAI_MODEL (or a per-agent <ROLE>_MODEL) must be set in .env');
+    }
+
+    // Local servers (Ollama etc.) usually need no key
+    return {
+        baseUrl: baseUrl.replace(/\/$/, ''),
+        apiKey: process.env.OPENAI_API_KEY || undefined,
+        model: resolvedModel,
+    };
+}
+
+export const openaiProvider: LLMProvider = {
+    name: 'openai',
+    supportsConversations: false,
+
+    async send(agent, { messages, signal }) {
+        const { baseUrl, apiKey, model } = getConfig(agent.model);
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ model, messages }),
+            signal,
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`  ✗ Chat API error (${response.status}):`, errorText);
+            throw new ProviderError(`OpenAI-compatible API error (${response.status}): ${errorText}`, response.status);
+        }
+
+        const data = await response.json() as {
+            choices?: Array<{ message?: { content?: string } }>;
+            usage?: { prompt_tokens?: number; completion_tokens?: number };
+        };
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error('OpenAI-compatible API returned no message content');
+        }
+        const usage = data.usage;
+        return {
+            text: content,
+            usage: typeof usage?.prompt_tokens === 'number'
+                ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 }
+                : undefined,
+        };
+    },
+};
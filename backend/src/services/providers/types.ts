@@ -0,0 +1,56 @@
+/**
+ * LLM Provider contract
+ * Every backend (Archestra A2A, OpenAI-compatible, mock) implements this
+ */
+import type { AgentConfig, ProviderName } from '../agents.js';
+
+export interface ChatMessage {
+    role: string;
+    content: string;
+}
+
+export interface ProviderRequest {
+    messages: ChatMessage[];
+    signal: AbortSignal;
+    /** Continue this provider-side conversation (conversational providers only) */
+    contextId?: string;
+}
+
+/** Token counts as reported by the provider */
+export interface ProviderUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface ProviderReply {
+    text: string;
+    /** Absent when the provider does not report usage; the caller estimates it */
+    usage?: ProviderUsage;
+    /** Conversation to continue on the next call, when the provider keeps one */
+    contextId?: string;
+    taskId?: string;
+}
+
+export interface LLMProvider {
+    readonly name: ProviderName;
+    /**
+     * Whether the provider keeps conversation state server-side. Only then is it
+     * safe to send just what changed since the previous turn.
+     */
+    readonly supportsConversations: boolean;
+    /** Send the messages to the given agent and return its raw text reply */
+    send(agent: AgentConfig, request: ProviderRequest): Promise<ProviderReply>;
+    /** Cancel a running task (best effort); called when a call is aborted */
+    cancelTask?(agent: AgentConfig, taskId: string): Promise<void>;
+}
+
+/**
+ * Error from a provider call. `status` is the HTTP status when there was one,
+ * so callers can tell retryable (5xx, 429) from permanent (4xx) failures.
+ */
+export class ProviderError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
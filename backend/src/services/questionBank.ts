@@ -0,0 +1,281 @@
+/**
+ * Question Bank
+ * Curated questions kept in the session store (see storage/), each with topic
+ * tags, a difficulty and, for coding questions, starter code, a reference
+ * solution and test cases. Managed over /api/questions.
+ *
+ * Where a session's questions come from (the template's `questionSource`,
+ * else QUESTION_SOURCE, else "ai"):
+ *   ai     — the interviewer writes every question; the bank supplies fallbacks
+ *   bank   — questions are picked from the bank, the interviewer is not asked
+ *   seeded — the interviewer adapts a question picked from the bank
+ *
+ * Picks favour questions tagged for the session's role profile, closest to
+ * the current difficulty, then those on the section's topics, and never
+ * repeat a question within a session.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { difficultySchema, formatIssues, rubricSchema } from './agentSchemas.js';
+import type { TemplateSection } from './interviewTemplates.js';
+import { topicsFor } from './roleProfiles.js';
+import type { Difficulty, InterviewSession, QuestionRecord } from './sessionManager.js';
+import { getSessionStore } from './storage/index.js';
+
+export const questionSourceSchema = z.enum(['ai', 'bank', 'seeded']);
+
+export type QuestionSource = z.infer<typeof questionSourceSchema>;
+
+/** Lowercase, words joined by dashes: "State Management" → "state-management" */
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+const testCaseSchema = z.object({
+    input: z.string(),
+    expectedOutput: z.string(),
+    description: z.string().optional(),
+    /** Kept from the candidate; only the code reviewer sees it */
+    hidden: z.boolean().default(false),
+}).strict();
+
+const CODE_ONLY_FIELDS = ['starterCode', 'language', 'referenceSolution', 'testCases'] as const;
+
+export const bankQuestionInputSchema = z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'lowercase letters, digits and dashes only').max(80).optional(),
+    type: z.enum(['video', 'code']),
+    title: z.string().min(1),
+    text: z.string().min(1),
+    difficulty: difficultySchema,
+    tags: z.array(z.string().min(1).transform(normalizeTag)).default([]),
+    starterCode: z.string().optional(),
+    language: z.string().optional(),
+    referenceSolution: z.string().optional(),
+    testCases: z.array(testCaseSchema).optional(),
+    rubric: rubricSchema.optional(),
+}).strict().superRefine((question, ctx) => {
+    if (question.type === 'code') return;
+    for (const field of CODE_ONLY_FIELDS) {
+        if (question[field] !== undefined) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'only coding questions have this field' });
+        }
+    }
+});
+
+export type BankQuestionInput = z.input<typeof bankQuestionInputSchema>;
+
+export type TestCase = z.infer<typeof testCaseSchema>;
+
+export type BankQuestion = Omit<z.infer<typeof bankQuestionInputSchema>, 'id'> & {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+/** A question (or an import) failed validation; `issues` lists every problem */
+export class QuestionValidationError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Invalid question: ${issues.join('; ')}`);
+        this.name = 'QuestionValidationError';
+    }
+}
+
+// Asked when the bank has nothing for the session at all
+const LAST_RESORT: Record<QuestionRecord['type'], Omit<QuestionRecord, 'id' | 'difficulty'>> = {
+    video: {
+        type: 'video',
+        title: 'Recent Project',
+        text: 'Walk me through a recent project you are proud of. What was your part in it, and what would you do differently?',
+    },
+    code: {
+        type: 'code',
+        title: 'Array Flattening',
+        text: 'Write a function that takes a nested array and returns a flat array, without using the built-in .flat() method.',
+        starterCode: '// Write your solution here\nfunction flatten(arr) {\n  \n}\n',
+        language: 'javascript',
+    },
+};
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+/** QUESTION_SOURCE, read when a session starts */
+export function getDefaultQuestionSource(): QuestionSource {
+    const configured = (process.env.QUESTION_SOURCE || 'ai').toLowerCase();
+    const parsed = questionSourceSchema.safeParse(configured);
+    if (!parsed.success) {
+        throw new Error(`QUESTION_SOURCE must be one of ${questionSourceSchema.options.join(', ')} (got "${configured}")`);
+    }
+    return parsed.data;
+}
+
+function parseInput(input: unknown, path: string = ''): z.infer<typeof bankQuestionInputSchema> {
+    const parsed = bankQuestionInputSchema.safeParse(input);
+    if (!parsed.success) {
+        throw new QuestionValidationError(formatIssues(parsed.error).map(issue => `${path}${issue}`));
+    }
+    return parsed.data;
+}
+
+export function listBankQuestions(filter: { type?: string; difficulty?: string; tag?: string } = {}): BankQuestion[] {
+    const tag = filter.tag && normalizeTag(filter.tag);
+    return getSessionStore().questions.list().filter(q =>
+        (!filter.type || q.type === filter.type)
+        && (!filter.difficulty || q.difficulty === filter.difficulty)
+        && (!tag || q.tags.includes(tag))
+    );
+}
+
+export function getBankQuestion(id: string): BankQuestion | undefined {
+    return getSessionStore().questions.get(id);
+}
+
+/**
+ * Validate and add a question. Without an `id`, one is generated.
+ */
+export function createBankQuestion(input: unknown): BankQuestion {
+    const { id, ...fields } = parseInput(input);
+    if (id && getBankQuestion(id)) throw new QuestionValidationError([`id: "${id}" is already used`]);
+
+    const now = new Date().toISOString();
+    const question: BankQuestion = { ...fields, id: id ?? uuidv4(), createdAt: now, updatedAt: now };
+    getSessionStore().questions.save([question]);
+    return question;
+}
+
+/**
+ * Replace a question's fields. Returns undefined if there is no such question.
+ */
+export function updateBankQuestion(id: string, input: unknown): BankQuestion | undefined {
+    const existing = getBankQuestion(id);
+    if (!existing) return undefined;
+
+    const { id: bodyId, ...fields } = parseInput(input);
+    if (bodyId && bodyId !== id) throw new QuestionValidationError([`id: cannot be changed (is "${id}")`]);
+
+    const question: BankQuestion = { ...fields, id, createdAt: existing.createdAt, updatedAt: new Date().toISOString() };
+    getSessionStore().questions.save([question]);
+    return question;
+}
+
+export function deleteBankQuestion(id: string): boolean {
+    return getSessionStore().questions.delete(id);
+}
+
+export function exportQuestionBank() {
+    return { exportedAt: new Date().toISOString(), questions: getSessionStore().questions.list() };
+}
+
+// Exported questions carry timestamps; an import sets them anew
+function withoutTimestamps(input: unknown): unknown {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) return input;
+    const fields = { ...input } as Record<string, unknown>;
+    delete fields.createdAt;
+    delete fields.updatedAt;
+    return fields;
+}
+
+/**
+ * Add or update questions from an export (or any list of question inputs).
+ * Every question is validated before anything is written; `replace` removes
+ * the questions the import does not contain.
+ */
+export function importQuestionBank(
+    questions: unknown,
+    replace: boolean
+): { created: number; updated: number; deleted: number } {
+    if (!Array.isArray(questions)) throw new QuestionValidationError(['questions: expected an array']);
+
+    const issues: string[] = [];
+    const parsed = questions.flatMap((input, index) => {
+        try {
+            return [parseInput(withoutTimestamps(input), `questions.${index}.`)];
+        } catch (err) {
+            issues.push(...(err as QuestionValidationError).issues);
+            return [];
+        }
+    });
+    const ids = parsed.map(q => q.id).filter(Boolean);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) issues.push(`questions: id "${duplicate}" appears twice`);
+    if (issues.length > 0) throw new QuestionValidationError(issues);
+
+    const store = getSessionStore().questions;
+    const existing = new Map(store.list().map(q => [q.id, q]));
+    const now = new Date().toISOString();
+    const imported: BankQuestion[] = parsed.map(({ id, ...fields }) => ({
+        ...fields,
+        id: id ?? uuidv4(),
+        createdAt: (id && existing.get(id)?.createdAt) || now,
+        updatedAt: now,
+    }));
+    store.save(imported, { replace });
+
+    const updated = imported.filter(q => existing.has(q.id)).length;
+    return {
+        created: imported.length - updated,
+        updated,
+        deleted: replace ? existing.size - updated : 0,
+    };
+}
+
+/**
+ * The bank question best suited to the session's next question in `section`,
+ * or undefined if the bank has none left for its role.
+ */
+export function pickBankQuestion(session: InterviewSession, section: TemplateSection): BankQuestion | undefined {
+    const askedIds = new Set(session.questions.map(q => q.bankId).filter(Boolean));
+    const askedTexts = new Set(session.questions.map(q => q.text));
+    const candidates = getSessionStore().questions.list()
+        .filter(q => q.type === section.type && !askedIds.has(q.id) && !askedTexts.has(q.text));
+
+    // Questions for the role first, then ones meant for any role
+    const roleTags = session.profile.questionTags;
+    const forRole = candidates.filter(q => q.tags.some(tag => roleTags.includes(tag)));
+    const pool = forRole.length > 0 ? forRole : candidates.filter(q => q.tags.includes('general'));
+    if (pool.length === 0) return undefined;
+
+    const topics = topicsFor(session, section).map(normalizeTag);
+    const target = DIFFICULTIES.indexOf(session.currentDifficulty);
+    // Closest difficulty first, then the most topics in common
+    const rank = (q: BankQuestion) => [
+        Math.abs(DIFFICULTIES.indexOf(q.difficulty) - target),
+        -q.tags.filter(tag => topics.includes(tag)).length,
+    ];
+    return [...pool].sort((a, b) => {
+        const [ra, rb] = [rank(a), rank(b)];
+        return ra[0] - rb[0] || ra[1] - rb[1];
+    })[0];
+}
+
+/** The session's copy of a bank question (no reference solution or test cases) */
+export function toQuestionRecord(question: BankQuestion): Omit<QuestionRecord, 'id'> {
+    const { id, type, title, text, difficulty, starterCode, language, rubric } = question;
+    return { type, title, text, difficulty, starterCode, language, rubric, bankId: id };
+}
+
+/**
+ * The best bank question for the section, or a stock one if the bank has
+ * nothing left for the session's role. Asked in "bank" mode, and whenever the
+ * interviewer fails.
+ */
+export function questionFromBank(session: InterviewSession, section: TemplateSection): Omit<QuestionRecord, 'id'> {
+    const picked = pickBankQuestion(session, section);
+    return picked ? toQuestionRecord(picked) : { ...LAST_RESORT[section.type], difficulty: session.currentDifficulty };
+}
+
+/**
+ * The reference solution and test cases for the code reviewer, when the
+ * question came from the bank.
+ */
+export function describeReference(question: QuestionRecord): string {
+    const banked = question.bankId ? getBankQuestion(question.bankId) : undefined;
+    if (!banked?.referenceSolution && !banked?.testCases?.length) return 'none (judge the code on its own merits)';
+
+    const parts: string[] = [];
+    if (banked.referenceSolution) parts.push(`Reference solution:\n${banked.referenceSolution}`);
+    if (banked.testCases?.length) {
+        const cases = banked.testCases.map(t => `- ${t.input} => ${t.expectedOutput}${t.description ? ` (${t.description})` : ''}`);
+        parts.push(`Test cases:\n${cases.join('\n')}`);
+    }
+    return parts.join('\n');
+}
@@ -0,0 +1,180 @@
+/**
+ * Question Bank Seed
+ * The questions a new store's bank starts with (added by the store migration
+ * that creates the bank). Edit the bank over /api/questions afterwards.
+ */
+import type { BankQuestion } from './questionBank.js';
+
+type SeedQuestion = Omit<BankQuestion, 'createdAt' | 'updatedAt'>;
+
+const SEED_QUESTIONS: SeedQuestion[] = [
+    // ─── Frontend ───────────────────────────────────────
+    {
+        id: 'react-props-vs-state',
+        type: 'video',
+        title: 'Props vs State',
+        text: 'What is the difference between props and state in React?',
+        difficulty: 'easy',
+        tags: ['frontend', 'react', 'state-management'],
+    },
+    {
+        id: 'react-keys',
+        type: 'video',
+        title: 'React Keys',
+        text: 'What are React keys and why are they important?',
+        difficulty: 'easy',
+        tags: ['frontend', 'react', 'rendering-performance'],
+    },
+    {
+        id: 'react-usestate-vs-usereducer',
+        type: 'video',
+        title: 'React State Management',
+        text: 'Can you explain the difference between useState and useReducer in React? When would you choose one over the other?',
+        difficulty: 'medium',
+        tags: ['frontend', 'react', 'state-management'],
+    },
+    {
+        id: 'react-effect-cleanup',
+        type: 'video',
+        title: 'Effect Cleanup',
+        text: 'When does a useEffect cleanup function run, and what kinds of bugs does it prevent?',
+        difficulty: 'medium',
+        tags: ['frontend', 'react', 'hooks'],
+    },
+    {
+        id: 'react-performance',
+        type: 'video',
+        title: 'Rendering Performance',
+        text: 'Tell me about a time you had to optimize a React application for performance. What specific metrics did you target?',
+        difficulty: 'medium',
+        tags: ['frontend', 'react', 'rendering-performance', 'performance'],
+    },
+    {
+        id: 'frontend-component-architecture',
+        type: 'video',
+        title: 'Component Architecture',
+        text: 'How do you approach designing a component architecture for a large-scale frontend application?',
+        difficulty: 'hard',
+        tags: ['frontend', 'component-design', 'architecture'],
+    },
+    {
+        id: 'react-reconciliation',
+        type: 'video',
+        title: 'Reconciliation',
+        text: 'Walk me through how React reconciliation decides what to re-render, and how you would debug excessive renders.',
+        difficulty: 'hard',
+        tags: ['frontend', 'react', 'rendering-performance'],
+    },
+    {
+        id: 'frontend-accessibility',
+        type: 'video',
+        title: 'Accessible Components',
+        text: 'How would you make a custom dropdown component accessible to keyboard and screen reader users?',
+        difficulty: 'medium',
+        tags: ['frontend', 'accessibility', 'component-design'],
+    },
+    {
+        id: 'react-use-debounce',
+        type: 'code',
+        title: 'Custom useDebounce Hook',
+        text: 'Create a custom React hook called useDebounce(value, delay) that returns the value only after it has stopped changing for `delay` milliseconds.',
+        difficulty: 'medium',
+        tags: ['frontend', 'react', 'hooks'],
+        starterCode: '// Write your solution here\nfunction useDebounce(value, delay) {\n  \n}\n',
+        language: 'javascript',
+        referenceSolution: 'function useDebounce(value, delay) {\n  const [debounced, setDebounced] = useState(value);\n  useEffect(() => {\n    const timer = setTimeout(() => setDebounced(value), delay);\n    return () => clearTimeout(timer);\n  }, [value, delay]);\n  return debounced;\n}',
+        testCases: [
+            { input: 'value changes to "a" then "ab" within 100ms, delay 300', expectedOutput: '"ab" once, 300ms after the last change', hidden: false },
+            { input: 'component unmounts before the delay passes', expectedOutput: 'no state update after unmount (timer cleared)', hidden: true },
+        ],
+    },
+    {
+        id: 'array-flatten',
+        type: 'code',
+        title: 'Array Flattening',
+        text: 'Write a function that takes a nested array and returns a flat array. You cannot use the built-in .flat() method.',
+        difficulty: 'easy',
+        tags: ['frontend', 'general', 'data-transformation', 'algorithms'],
+        starterCode: '// Function to flatten nested arrays\nfunction flatten(arr) {\n  // Your implementation here\n  \n  return [];\n}\n\n// Test Case:\n// console.log(flatten([1, [2, [3, 4], 5]]));',
+        language: 'javascript',
+        referenceSolution: 'function flatten(arr) {\n  return arr.reduce((flat, item) => flat.concat(Array.isArray(item) ? flatten(item) : item), []);\n}',
+        testCases: [
+            { input: 'flatten([1, [2, [3, 4], 5]])', expectedOutput: '[1, 2, 3, 4, 5]', hidden: false },
+            { input: 'flatten([])', expectedOutput: '[]', hidden: false },
+            { input: 'flatten([[[[1]]], 2])', expectedOutput: '[1, 2]', hidden: true },
+        ],
+    },
+
+    // ─── Backend ────────────────────────────────────────
+    {
+        id: 'backend-pagination',
+        type: 'video',
+        title: 'API Pagination',
+        text: 'How would you design a paginated API for a collection that changes while clients page through it?',
+        difficulty: 'medium',
+        tags: ['backend', 'api-design'],
+    },
+    {
+        id: 'backend-indexes',
+        type: 'video',
+        title: 'Database Indexes',
+        text: 'How do you decide which indexes a table needs, and what do they cost you?',
+        difficulty: 'easy',
+        tags: ['backend', 'databases', 'data-modelling'],
+    },
+    {
+        id: 'backend-downstream-failures',
+        type: 'video',
+        title: 'Handling Failures',
+        text: 'A downstream service your API depends on starts timing out. How should your service behave, and why?',
+        difficulty: 'hard',
+        tags: ['backend', 'failure-handling', 'observability'],
+    },
+    {
+        id: 'backend-rate-limiter',
+        type: 'code',
+        title: 'Rate Limiter',
+        text: 'Write a function createRateLimiter(limit, windowMs) that returns an allow(clientId) function, true while the client has made fewer than `limit` calls in the last `windowMs` milliseconds.',
+        difficulty: 'medium',
+        tags: ['backend', 'rate-limiting', 'data-structures'],
+        starterCode: '// Write your solution here\nfunction createRateLimiter(limit, windowMs) {\n  \n}\n',
+        language: 'javascript',
+        referenceSolution: 'function createRateLimiter(limit, windowMs) {\n  const calls = new Map();\n  return clientId => {\n    const now = Date.now();\n    const recent = (calls.get(clientId) || []).filter(t => now - t < windowMs);\n    if (recent.length >= limit) { calls.set(clientId, recent); return false; }\n    recent.push(now);\n    calls.set(clientId, recent);\n    return true;\n  };\n}',
+        testCases: [
+            { input: 'limit 2: allow("a") three times at once', expectedOutput: 'true, true, false', hidden: false },
+            { input: 'limit 1: allow("a"), allow("b")', expectedOutput: 'true, true (clients are separate)', hidden: false },
+            { input: 'limit 1, window 100ms: allow("a"), wait 150ms, allow("a")', expectedOutput: 'true, true', hidden: true },
+        ],
+    },
+
+    // ─── Any role ───────────────────────────────────────
+    {
+        id: 'general-recent-project',
+        type: 'video',
+        title: 'Recent Project',
+        text: 'Walk me through a recent project you are proud of. What was your part in it, and what would you do differently?',
+        difficulty: 'easy',
+        tags: ['general', 'past-projects'],
+    },
+    {
+        id: 'general-debugging',
+        type: 'video',
+        title: 'Debugging',
+        text: 'Describe a challenging bug you encountered recently. How did you debug and resolve it?',
+        difficulty: 'medium',
+        tags: ['general', 'debugging'],
+    },
+    {
+        id: 'general-trade-offs',
+        type: 'video',
+        title: 'Design Trade-offs',
+        text: 'Tell me about a technical decision where you had to trade one quality for another. How did you decide?',
+        difficulty: 'hard',
+        tags: ['general', 'design-trade-offs'],
+    },
+];
+
+/** The seed questions, stamped with the time they were added */
+export function seedQuestions(now: string = new Date().toISOString()): BankQuestion[] {
+    return SEED_QUESTIONS.map(question => ({ ...structuredClone(question), createdAt: now, updatedAt: now }));
+}
@@ -0,0 +1,243 @@
+/**
+ * Role Profiles
+ * What an interview for a given role should cover, loaded from a JSON file
+ * (ROLE_PROFILES_PATH, default backend/role-profiles.json):
+ *
+ *   {
+ *     "default": "frontend",
+ *     "company": "Nebula Systems",
+ *     "seniority": { "senior": "Owns the design of features end to end..." },
+ *     "profiles": {
+ *       "frontend": {
+ *         "title": "Senior Frontend Engineer",
+ *         "match": ["frontend", "react"],
+ *         "seniority": "senior",
+ *         "skills": ["React", "TypeScript"],
+ *         "topics": ["state management", "rendering performance"],
+ *         "codingTopics": ["hooks", "data transformation"],
+ *         "questionTags": ["frontend", "react"]
+ *       }
+ *     }
+ *   }
+ *
+ * The role a session is started with is matched to a profile (by id, title or
+ * one of its `match` words); roles matching none get the built-in generic
+ * profile. Seniority comes from the role title ("Junior", "Staff"...) or the
+ * profile's own. A session keeps a copy of its profile, like its sections.
+ * The file is validated at startup.
+ */
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { formatIssues } from './agentSchemas.js';
+import { normalizeTag } from './questionBank.js';
+import type { InterviewSession } from './sessionManager.js';
+
+const senioritySchema = z.enum(['junior', 'mid', 'senior', 'staff']);
+
+export type Seniority = z.infer<typeof senioritySchema>;
+
+const profileSchema = z.object({
+    title: z.string().min(1),
+    /** Words that map a free-text role onto this profile (case-insensitive) */
+    match: z.array(z.string().min(1)).default([]),
+    /** Used when the role title does not say */
+    seniority: senioritySchema.default('mid'),
+    skills: z.array(z.string().min(1)).min(1),
+    /** Asked about in sections without topics of their own */
+    topics: z.array(z.string().min(1)).min(1),
+    codingTopics: z.array(z.string().min(1)).default([]),
+    /** Question bank tags marking questions for this role (default: the profile id) */
+    questionTags: z.array(z.string().min(1).transform(normalizeTag)).optional(),
+}).strict();
+
+const profilesFileSchema = z.object({
+    default: z.string(),
+    /** Company shown in the lobby and used when /start names none */
+    company: z.string().min(1),
+    /** Overrides of the built-in seniority expectations */
+    seniority: z.record(senioritySchema, z.string().min(1)).default({}),
+    profiles: z.record(profileSchema),
+}).strict();
+
+type ProfileConfig = z.infer<typeof profileSchema>;
+
+/** The profile as copied into a session */
+export interface RoleProfile {
+    id: string;
+    seniority: Seniority;
+    /** What is expected of a candidate at that seniority */
+    expectations: string;
+    skills: string[];
+    topics: string[];
+    codingTopics: string[];
+    questionTags: string[];
+}
+
+const DEFAULT_EXPECTATIONS: Record<Seniority, string> = {
+    junior: 'Knows the fundamentals and can deliver well-defined tasks with guidance; reasoning matters more than breadth.',
+    mid: 'Delivers features independently, explains trade-offs of common approaches and writes maintainable code.',
+    senior: 'Owns the design of features end to end, anticipates failure modes and performance issues, and can justify architectural decisions.',
+    staff: 'Shapes the architecture across teams, weighs long-term trade-offs and raises the level of the engineers around them.',
+};
+
+// Checked in this order, so "Senior Staff Engineer" is staff
+const SENIORITY_WORDS: Array<[Seniority, RegExp]> = [
+    ['staff', /\b(staff|principal|lead|architect)\b/i],
+    ['senior', /\b(senior|sr\.?)\b/i],
+    ['junior', /\b(junior|jr\.?|graduate|intern|entry[- ]level)\b/i],
+    ['mid', /\b(mid|intermediate)\b/i],
+];
+
+const GENERIC_PROFILE: ProfileConfig = {
+    title: 'Software Engineer',
+    match: [],
+    seniority: 'mid',
+    skills: ['problem solving', 'software design', 'debugging', 'communication'],
+    topics: ['past projects', 'debugging', 'design trade-offs', 'testing'],
+    codingTopics: ['data structures', 'algorithms'],
+    questionTags: ['general'],
+};
+
+let profiles = new Map<string, ProfileConfig>();
+let defaultProfileId: string | undefined;
+let defaultCompany = 'Nebula Systems';
+let expectations = { ...DEFAULT_EXPECTATIONS };
+
+function getProfilesPath(): string {
+    const configured = process.env.ROLE_PROFILES_PATH;
+    // src/services → backend/role-profiles.json (same depth from dist/services)
+    return configured
+        ? resolve(configured)
+        : fileURLToPath(new URL('../../role-profiles.json', import.meta.url));
+}
+
+/**
+ * Parse and cross-check a profiles file. Throws with every problem found.
+ */
+function parseProfiles(raw: string): z.infer<typeof profilesFileSchema> {
+    let json: unknown;
+    try {
+        json = JSON.parse(raw);
+    } catch (err) {
+        throw new Error(`not valid JSON: ${(err as Error).message}`);
+    }
+
+    const parsed = profilesFileSchema.safeParse(json);
+    if (!parsed.success) throw new Error(formatIssues(parsed.error).join('; '));
+
+    const problems: string[] = [];
+    if (!(parsed.data.default in parsed.data.profiles)) {
+        problems.push(`default: unknown profile "${parsed.data.default}"`);
+    }
+    // A match word claimed by two profiles would pick one of them silently
+    const claimed = new Map<string, string>();
+    for (const [id, profile] of Object.entries(parsed.data.profiles)) {
+        for (const word of profile.match.map(w => w.toLowerCase())) {
+            const owner = claimed.get(word);
+            if (owner) problems.push(`profiles.${id}: match word "${word}" is also used by "${owner}"`);
+            claimed.set(word, id);
+        }
+    }
+
+    if (problems.length > 0) throw new Error(problems.join('; '));
+    return parsed.data;
+}
+
+/**
+ * Load and validate the profiles file.
+ * Call at startup: an invalid file fails fast. No file means every role gets
+ * the generic profile.
+ */
+export function loadRoleProfiles(): void {
+    const path = getProfilesPath();
+    if (!existsSync(path)) return;
+
+    try {
+        const loaded = parseProfiles(readFileSync(path, 'utf8'));
+        profiles = new Map(Object.entries(loaded.profiles));
+        defaultProfileId = loaded.default;
+        defaultCompany = loaded.company;
+        expectations = { ...DEFAULT_EXPECTATIONS, ...loaded.seniority };
+    } catch (err) {
+        throw new Error(`Role profiles ${path}: ${(err as Error).message}`);
+    }
+}
+
+function findProfile(role: string): [string, ProfileConfig] | undefined {
+    const byId = profiles.get(role);
+    if (byId) return [role, byId];
+
+    const wanted = role.trim().toLowerCase();
+    const entries = [...profiles.entries()];
+    return entries.find(([, p]) => p.title.toLowerCase() === wanted)
+        ?? entries.find(([, p]) => p.match.some(word => wanted.includes(word.toLowerCase())));
+}
+
+function seniorityOf(role: string, fallback: Seniority): Seniority {
+    return SENIORITY_WORDS.find(([, pattern]) => pattern.test(role))?.[0] ?? fallback;
+}
+
+/**
+ * The profile for a role as given to /start, and the role title to use: a
+ * profile id stands for the profile's title, free text is kept as written.
+ * No role means the default profile.
+ */
+export function resolveRoleProfile(role?: string): { title: string; profile: RoleProfile } {
+    const requested = role?.trim() || defaultProfileId;
+    const found = requested ? findProfile(requested) : undefined;
+    const [id, config] = found ?? ['generic', GENERIC_PROFILE];
+    const title = !role?.trim() || profiles.has(role) ? config.title : role.trim();
+    const seniority = seniorityOf(title, config.seniority);
+
+    return {
+        title,
+        profile: {
+            id,
+            seniority,
+            expectations: expectations[seniority],
+            skills: [...config.skills],
+            topics: [...config.topics],
+            codingTopics: [...config.codingTopics],
+            questionTags: config.questionTags ?? [id],
+        },
+    };
+}
+
+export function getDefaultCompany(): string {
+    return defaultCompany;
+}
+
+export function getDefaultProfileId(): string | undefined {
+    return defaultProfileId;
+}
+
+export function listRoleProfiles(): Array<Omit<ProfileConfig, 'questionTags' | 'match'> & { id: string }> {
+    return [...profiles.entries()].map(([id, { title, seniority, skills, topics, codingTopics }]) => ({
+        id, title, seniority, skills, topics, codingTopics,
+    }));
+}
+
+/**
+ * Prompt variables describing the role, shared by every agent prompt.
+ */
+export function roleVariables(session: InterviewSession) {
+    return {
+        role: session.role,
+        company: session.company,
+        seniority: session.profile.seniority,
+        expectations: session.profile.expectations,
+        skills: session.profile.skills.join(', '),
+    };
+}
+
+/**
+ * What the interviewer should ask about next: the section's topics, or the
+ * role's when the section has none.
+ */
+export function topicsFor(session: InterviewSession, section: { type: 'video' | 'code'; topics: string[] }): string[] {
+    if (section.topics.length > 0) return section.topics;
+    const { topics, codingTopics } = session.profile;
+    return section.type === 'code' && codingTopics.length > 0 ? codingTopics : topics;
+}
@@ -0,0 +1,178 @@
+/**
+ * Scoring Rubrics
+ * Every question carries a rubric: weighted criteria with level descriptors.
+ * The evaluator and code reviewer pick a level per criterion and the question
+ * score is computed here from the weights, so two candidates' "75" mean the
+ * same thing. Questions without their own rubric get the default for their type.
+ */
+import type { CriterionScore, Rubric } from './agentSchemas.js';
+import { getPromptScoring } from './promptRegistry.js';
+import type { InterviewSession, QuestionRecord } from './sessionManager.js';
+
+export interface CriterionResult {
+    criterionId: string;
+    name: string;
+    weight: number;
+    level: number;
+    levelLabel: string;
+    /** The level as 0-100 */
+    score: number;
+    rationale?: string;
+}
+
+const DEFAULT_RUBRICS: Record<QuestionRecord['type'], Rubric> = {
+    video: {
+        criteria: [
+            {
+                id: 'accuracy',
+                name: 'Technical accuracy',
+                weight: 40,
+                levels: [
+                    { label: 'Incorrect', description: 'Core claims are wrong or missing.' },
+                    { label: 'Partial', description: 'Some correct points mixed with misconceptions.' },
+                    { label: 'Correct', description: 'Accurate on the main points.' },
+                    { label: 'Precise', description: 'Accurate, including nuances and caveats.' },
+                ],
+            },
+            {
+                id: 'depth',
+                name: 'Depth of reasoning',
+                weight: 30,
+                levels: [
+                    { label: 'Superficial', description: 'Restates the question or lists terms.' },
+                    { label: 'Basic', description: 'Explains what, but not why.' },
+                    { label: 'Solid', description: 'Explains why and when, with some trade-offs.' },
+                    { label: 'Deep', description: 'Weighs trade-offs and alternatives convincingly.' },
+                ],
+            },
+            {
+                id: 'examples',
+                name: 'Practical examples',
+                weight: 15,
+                levels: [
+                    { label: 'None', description: 'No examples.' },
+                    { label: 'Generic', description: 'Textbook examples only.' },
+                    { label: 'Concrete', description: 'Concrete, relevant examples or experience.' },
+                ],
+            },
+            {
+                id: 'communication',
+                name: 'Communication',
+                weight: 15,
+                levels: [
+                    { label: 'Unclear', description: 'Hard to follow.' },
+                    { label: 'Understandable', description: 'Followable but unstructured.' },
+                    { label: 'Clear', description: 'Structured, concise and easy to follow.' },
+                ],
+            },
+        ],
+    },
+    code: {
+        criteria: [
+            {
+                id: 'correctness',
+                name: 'Correctness',
+                weight: 40,
+                levels: [
+                    { label: 'Broken', description: 'Does not work or does not address the task.' },
+                    { label: 'Basic', description: 'Works for the main case only.' },
+                    { label: 'Mostly correct', description: 'Works, with minor gaps.' },
+                    { label: 'Correct', description: 'Works, including edge cases.' },
+                ],
+            },
+            {
+                id: 'quality',
+                name: 'Code quality',
+                weight: 25,
+                levels: [
+                    { label: 'Poor', description: 'Hard to read or maintain.' },
+                    { label: 'Adequate', description: 'Readable, with some issues.' },
+                    { label: 'Clean', description: 'Idiomatic, well named and structured.' },
+                ],
+            },
+            {
+                id: 'robustness',
+                name: 'Edge cases and robustness',
+                weight: 20,
+                levels: [
+                    { label: 'Ignored', description: 'No handling of edge cases or cleanup.' },
+                    { label: 'Partial', description: 'Some edge cases handled.' },
+                    { label: 'Thorough', description: 'Edge cases and cleanup handled deliberately.' },
+                ],
+            },
+            {
+                id: 'efficiency',
+                name: 'Efficiency',
+                weight: 15,
+                levels: [
+                    { label: 'Wasteful', description: 'Needlessly slow or resource-hungry.' },
+                    { label: 'Acceptable', description: 'Reasonable for the task.' },
+                    { label: 'Optimal', description: 'Appropriate complexity with no waste.' },
+                ],
+            },
+        ],
+    },
+};
+
+export function getDefaultRubric(type: QuestionRecord['type']): Rubric {
+    return structuredClone(DEFAULT_RUBRICS[type]);
+}
+
+/**
+ * The rubric a reply to the prompt version is scored against: none when the
+ * template predates rubrics and asks for a plain score (a pinned v1).
+ */
+export function getScoringRubric(question: QuestionRecord, promptVersion: string): Rubric | undefined {
+    return getPromptScoring(promptVersion) === 'rubric' ? question.rubric : undefined;
+}
+
+/**
+ * Turn per-criterion levels into a breakdown and the weighted question score.
+ * Assumes the scores were validated against the rubric.
+ */
+export function scoreRubric(
+    rubric: Rubric,
+    scores: CriterionScore[]
+): { score: number; criteria: CriterionResult[] } {
+    const criteria = rubric.criteria.map(criterion => {
+        const { level, rationale } = scores.find(s => s.criterionId === criterion.id)!;
+        return {
+            criterionId: criterion.id,
+            name: criterion.name,
+            weight: criterion.weight,
+            level,
+            levelLabel: criterion.levels[level].label,
+            score: Math.round((level / (criterion.levels.length - 1)) * 100),
+            rationale,
+        };
+    });
+
+    const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+    const score = Math.round(criteria.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight);
+    return { score, criteria };
+}
+
+export interface RubricBreakdown {
+    questionId: number;
+    question: string;
+    type: QuestionRecord['type'];
+    score: number;
+    criteria: CriterionResult[];
+}
+
+/**
+ * Per-criterion results of every scored question, for the final report.
+ */
+export function getRubricBreakdown(session: InterviewSession): RubricBreakdown[] {
+    return session.questions.flatMap(q => {
+        const result = q.evaluation ?? q.codeReview;
+        if (!result?.criteria) return [];
+        return [{
+            questionId: q.id,
+            question: q.title || q.text.substring(0, 80),
+            type: q.type,
+            score: result.score,
+            criteria: result.criteria,
+        }];
+    });
+}
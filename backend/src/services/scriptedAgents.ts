@@ -0,0 +1,259 @@
+/**
+ * Scripted Agents
+ * Deterministic stand-ins for the four interview agents.
+ * They read the same prompt a real agent receives and answer with the delta
+ * the routes expect, so the whole flow runs without any network access.
+ */
+import type { AgentRole } from './agents.js';
+import { unfenceUntrusted } from './promptInjection.js';
+import type { Difficulty, InterviewSession, QuestionRecord } from './sessionManager.js';
+
+type ScriptedQuestion = Omit<QuestionRecord, 'id' | 'difficulty'>;
+
+type AgentDelta = Record<string, unknown>;
+
+const VIDEO_POOL: Record<Difficulty, ScriptedQuestion[]> = {
+    easy: [
+        { type: 'video', title: 'Props vs State', text: 'What is the difference between props and state in React?' },
+        { type: 'video', title: 'Rendering Lists', text: 'How do you render a list of items in React, and why does each item need a key?' },
+        { type: 'video', title: 'Controlled Inputs', text: 'What is a controlled input and how would you build one?' },
+    ],
+    medium: [
+        { type: 'video', title: 'React State Management', text: 'Can you explain the difference between useState and useReducer in React? When would you choose one over the other?' },
+        { type: 'video', title: 'Effect Cleanup', text: 'When does a useEffect cleanup function run, and what kinds of bugs does it prevent?' },
+        { type: 'video', title: 'Memoization', text: 'When are useMemo and useCallback worth using, and when are they unnecessary overhead?' },
+    ],
+    hard: [
+        { type: 'video', title: 'Concurrent Rendering', text: 'How does concurrent rendering change the way you think about side effects and state updates?' },
+        { type: 'video', title: 'Reconciliation', text: 'Walk me through how React reconciliation decides what to re-render, and how you would debug excessive renders.' },
+        { type: 'video', title: 'State Architecture', text: 'How would you design state management for a large app with server cache, form state and global UI state?' },
+    ],
+};
+
+const CODE_QUESTION: ScriptedQuestion = {
+    type: 'code',
+    title: 'Custom useDebounce Hook',
+    text: 'Create a custom React hook called useDebounce(value, delay) that returns the value only after it has stopped changing for `delay` milliseconds.',
+    starterCode: '// Write your solution here\n',
+    language: 'javascript',
+};
+
+function raiseDifficulty(current: Difficulty): Difficulty {
+    if (current === 'easy') return 'medium';
+    return 'hard';
+}
+
+function lowerDifficulty(current: Difficulty): Difficulty {
+    if (current === 'hard') return 'medium';
+    return 'easy';
+}
+
+export interface ParsedPrompt {
+    /** Full context (SYSTEM CONTEXT block) */
+    context?: Record<string, unknown>;
+    /** Changes since the previous turn (CONTEXT UPDATE block) */
+    update?: Record<string, unknown>;
+    instruction?: string;
+}
+
+function parseBlock(raw: string): Record<string, unknown> | undefined {
+    try {
+        return JSON.parse(raw.trim()) as Record<string, unknown>;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Split a prompt built by sendContextToAgent into its context and instruction.
+ * Repair prompts carry neither.
+ */
+export function parsePrompt(prompt: string): ParsedPrompt {
+    const instructionStart = prompt.indexOf('INSTRUCTION:');
+    const contextEnd = instructionStart === -1 ? prompt.length : instructionStart;
+    const parsed: ParsedPrompt = {};
+
+    const contextStart = prompt.indexOf('SYSTEM CONTEXT:');
+    const updateMatch = prompt.match(/CONTEXT UPDATE[^:]*:/);
+    if (contextStart !== -1 && contextStart < contextEnd) {
+        parsed.context = parseBlock(prompt.substring(contextStart + 'SYSTEM CONTEXT:'.length, contextEnd));
+    } else if (updateMatch?.index !== undefined && updateMatch.index < contextEnd) {
+        parsed.update = parseBlock(prompt.substring(updateMatch.index + updateMatch[0].length, contextEnd)) || {};
+    }
+
+    if (instructionStart !== -1) {
+        parsed.instruction = prompt.substring(instructionStart + 'INSTRUCTION:'.length);
+    }
+    return parsed;
+}
+
+function findQuestionId(instruction: string): number | undefined {
+    const match = instruction.match(/Question ID:?\s*(\d+)/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+function scoreAnswer(answer: string | undefined): number {
+    const words = (answer || '').trim().split(/\s+/).filter(Boolean).length;
+    if (words < 5) return 20;
+    if (words < 30) return 55;
+    if (words < 80) return 72;
+    return 85;
+}
+
+function scoreCode(code: string | undefined): number {
+    const source = code || '';
+    let score = 30;
+    if (/return\b/.test(source)) score += 20;
+    if (/setTimeout|clearTimeout/.test(source)) score += 20;
+    if (/useEffect|useState/.test(source)) score += 15;
+    if (source.split('\n').length > 8) score += 10;
+    return Math.min(score, 95);
+}
+
+// Probes a short answer once; a longer one, or a question already followed up, is left alone
+function followUp(session: InterviewSession, instruction: string): AgentDelta {
+    const questionId = findQuestionId(instruction);
+    const thread = (session.questions || []).filter(q => q.id === questionId || q.parentId === questionId);
+    const words = unfenceUntrusted(thread[thread.length - 1]?.answer || '').trim().split(/\s+/).filter(Boolean).length;
+    if (thread.length !== 1 || words >= 30) return { followUp: null };
+
+    return {
+        followUp: {
+            title: `${thread[0].title || 'Question'} (follow-up)`,
+            text: 'Can you make that concrete? Walk me through a real example, and what would change at 10x the scale.',
+        },
+    };
+}
+
+function interviewer(session: InterviewSession, instruction: string): AgentDelta {
+    if (/follow-up/i.test(instruction)) return followUp(session, instruction);
+
+    const questions = session.questions || [];
+    const wantsCode = /"code" type|coding challenge/i.test(instruction);
+    const difficulty = session.currentDifficulty || 'medium';
+
+    let next: ScriptedQuestion;
+    if (wantsCode) {
+        next = CODE_QUESTION;
+    } else {
+        const context = session as InterviewSession & { previouslyAskedQuestions?: string[] };
+        const asked = new Set([...questions.map(q => q.title), ...(context.previouslyAskedQuestions || [])]);
+        const pool = VIDEO_POOL[difficulty];
+        next = pool.find(q => !asked.has(q.title)) || pool[questions.length % pool.length];
+    }
+
+    return { question: { ...next, difficulty } };
+}
+
+/**
+ * Levels matching an overall score on every rubric criterion, or the plain
+ * score for a question without a rubric or a prompt that predates rubrics.
+ */
+function scoreFields(question: QuestionRecord | undefined, score: number, instruction: string): AgentDelta {
+    if (!question?.rubric || !instruction.includes('"criteria"')) return { score };
+    return {
+        criteria: question.rubric.criteria.map(criterion => ({
+            criterionId: criterion.id,
+            level: Math.round((score / 100) * (criterion.levels.length - 1)),
+            rationale: `Scripted: ${score}/100 overall.`,
+        })),
+    };
+}
+
+function evaluator(session: InterviewSession, instruction: string): AgentDelta {
+    const questionId = findQuestionId(instruction);
+    const question = (session.questions || []).find(q => q.id === questionId);
+    const difficulty = question?.difficulty || session.currentDifficulty || 'medium';
+
+    // The question is scored with its follow-ups' answers
+    const thread = (session.questions || []).filter(q => q.id === questionId || q.parentId === questionId);
+    const score = scoreAnswer(thread.map(q => unfenceUntrusted(q.answer || '')).join(' '));
+    const nextDifficulty = score >= 75 ? raiseDifficulty(difficulty) : score < 50 ? lowerDifficulty(difficulty) : difficulty;
+    return {
+        questionId,
+        evaluation: {
+            ...scoreFields(question, score, instruction),
+            nextDifficulty,
+            strengths: score >= 55 ? ['Answered with relevant detail'] : [],
+            weaknesses: score < 72 ? ['Answer could go deeper with concrete examples'] : [],
+            brief: `Scripted evaluation: ${score}/100 based on answer depth.`,
+        },
+    };
+}
+
+function codeReviewer(session: InterviewSession, instruction: string): AgentDelta {
+    const questionId = findQuestionId(instruction);
+    const question = (session.questions || []).find(q => q.id === questionId);
+
+    const score = scoreCode(unfenceUntrusted(question?.answer || ''));
+    return {
+        questionId,
+        codeReview: {
+            ...scoreFields(question, score, instruction),
+            correctness: score >= 70,
+            timeComplexity: 'O(1)',
+            spaceComplexity: 'O(1)',
+            strengths: score >= 70 ? ['Handles timer cleanup'] : [],
+            issues: score < 70 ? ['Solution looks incomplete'] : [],
+            brief: `Scripted code review: ${score}/100.`,
+        },
+    };
+}
+
+function analyst(session: InterviewSession, instruction: string): AgentDelta {
+    // Partial reports cover only what was answered; follow-ups are scored with their question
+    const questions = (session.questions || []).filter(q => q.answer !== undefined && q.parentId === undefined);
+    const videoScores = questions.filter(q => q.evaluation).map(q => q.evaluation!.score);
+    const codeScores = questions.filter(q => q.codeReview).map(q => q.codeReview!.score);
+    const avg = (values: number[]) => values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+    const videoAvg = avg(videoScores);
+    const codeAvg = avg(codeScores);
+    const overallScore = avg([...videoScores, ...codeScores]);
+    const totalTime = instruction.match(/"totalTime" is set to "([^"]+)"/)?.[1];
+
+    return {
+        analysis: {
+            overallScore,
+            recommendation: overallScore >= 80 ? 'Strong Hire' : overallScore >= 65 ? 'Hire' : overallScore >= 50 ? 'Maybe' : 'No Hire',
+            summary: `Scripted analysis for ${session.role}: video average ${videoAvg}/100, coding average ${codeAvg}/100.`,
+            totalTime,
+            skillScores: {
+                conceptualClarity: videoAvg,
+                problemSolving: codeAvg,
+            },
+            questionResults: questions.map(q => ({
+                id: q.id,
+                title: q.title || q.text.substring(0, 80),
+                type: q.type,
+                score: q.evaluation?.score ?? q.codeReview?.score ?? 0,
+            })),
+            feedback: [
+                ...questions.flatMap(q => (q.evaluation?.strengths || q.codeReview?.strengths || []).map(text => ({ type: 'strength', text }))),
+                ...questions.flatMap(q => (q.evaluation?.weaknesses || q.codeReview?.issues || []).map(text => ({ type: 'improvement', text }))),
+            ],
+        },
+    };
+}
+
+const SCRIPTS: Record<AgentRole, (session: InterviewSession, instruction: string) => AgentDelta> = {
+    interviewer,
+    evaluator,
+    codeReviewer,
+    analyst,
+};
+
+/**
+ * Produce the JSON reply a well-behaved agent in `role` would give for this
+ * context and instruction.
+ */
+export function runScriptedTurn(role: AgentRole, context: Record<string, unknown>, instruction: string): string {
+    return JSON.stringify(SCRIPTS[role](context as unknown as InterviewSession, instruction));
+}
+
+/**
+ * Stateless variant: the prompt must carry the full context.
+ */
+export function runScriptedAgent(role: AgentRole, prompt: string): string {
+    const { context = {}, instruction = prompt } = parsePrompt(prompt);
+    return runScriptedTurn(role, context, instruction);
+}
@@ -0,0 +1,178 @@
+/**
+ * Session Events
+ * Every change to a session is an append-only event; the session itself is
+ * the result of replaying them in order. The store keeps the log, so the
+ * session can be rebuilt as it was after any event (audits of hiring
+ * decisions, debugging a score).
+ *
+ * Events that only do bookkeeping (usage, budget) do not bump the session
+ * version; every other event carries the version it produced.
+ */
+import type { AgentRole } from './agents.js';
+import type { InterviewPhase } from './interviewPhases.js';
+import { legacySections, type TemplateSection } from './interviewTemplates.js';
+import type { QuestionSource } from './questionBank.js';
+import { resolveRoleProfile, type RoleProfile } from './roleProfiles.js';
+import type { Difficulty, InterviewSession, QuestionRecord } from './sessionManager.js';
+import { addUsage, emptyTotals, type TokenUsage } from './usage.js';
+
+/** Which agent a change came from, and what of its output was dropped */
+export interface AgentMerge {
+    role: AgentRole;
+    promptVersion?: string;
+    questionId?: number;
+    /** Fields the agent wrote but does not own */
+    rejected: string[];
+}
+
+export type SessionChange =
+    | {
+        type: 'session-created';
+        sessionId: string;
+        role: string;
+        company: string;
+        /** Missing from sessions created before role profiles existed */
+        profile?: RoleProfile;
+        template?: string;
+        difficulty: Difficulty;
+        sections: TemplateSection[];
+        maxDurationMinutes?: number;
+        /** Missing from sessions created before the question bank existed (they used the interviewer) */
+        questionSource?: QuestionSource;
+        /** Logged before templates existed, instead of `sections` */
+        totalVideoQuestions?: number;
+    }
+    | { type: 'question-asked'; question: QuestionRecord }
+    | { type: 'answer-recorded'; questionId: number; answer: string; skipped: boolean; injectionFlags?: string[] }
+    | { type: 'evaluation-recorded'; questionId: number; evaluation: QuestionRecord['evaluation'] }
+    | { type: 'difficulty-changed'; from: Difficulty; to: Difficulty }
+    | { type: 'code-reviewed'; questionId: number; review: QuestionRecord['codeReview'] }
+    | ({ type: 'agent-merge-applied' } & AgentMerge)
+    | { type: 'analysis-started' }
+    /** The analysis was cancelled: back to the phase the candidate finished in */
+    | { type: 'analysis-cancelled'; phase: Extract<InterviewPhase, 'video' | 'coding'> }
+    | {
+        type: 'analysis-produced';
+        phase: Extract<InterviewPhase, 'completed' | 'abandoned' | 'expired'>;
+        analysis: Record<string, unknown>;
+    }
+    | { type: 'usage-recorded'; role: AgentRole; usage: TokenUsage; costUsd: number }
+    | { type: 'budget-exceeded'; reason: string }
+    /** A session stored before the event log existed, as it was then */
+    | { type: 'session-imported'; session: InterviewSession };
+
+export type SessionEventType = SessionChange['type'];
+
+export type SessionEvent = SessionChange & {
+    /** Position in the session's log, from 1 */
+    seq: number;
+    at: string;
+    /** Session version once the event is applied */
+    version: number;
+};
+
+const BOOKKEEPING: SessionEventType[] = ['usage-recorded', 'budget-exceeded'];
+
+export function isBookkeeping(change: SessionChange): boolean {
+    return BOOKKEEPING.includes(change.type);
+}
+
+function questionOf(session: InterviewSession, questionId: number): QuestionRecord {
+    const question = session.questions.find(q => q.id === questionId);
+    if (!question) throw new Error(`Event for session ${session.id} targets unknown question ${questionId}`);
+    return question;
+}
+
+/**
+ * Apply one event to the session (in place), or create it from the first one.
+ * Events were validated when they were recorded, so they are not re-checked.
+ */
+export function applyEvent(session: InterviewSession | undefined, event: SessionEvent): InterviewSession {
+    if (event.type === 'session-created') {
+        return {
+            id: event.sessionId,
+            role: event.role,
+            company: event.company,
+            // Older sessions get the profile their role maps to now
+            profile: structuredClone(event.profile ?? resolveRoleProfile(event.role).profile),
+            template: event.template,
+            sections: structuredClone(event.sections ?? legacySections(event.totalVideoQuestions ?? 3)),
+            maxDurationMinutes: event.maxDurationMinutes,
+            questionSource: event.questionSource ?? 'ai',
+            currentDifficulty: event.difficulty,
+            currentQuestionIndex: 0,
+            questions: [],
+            phase: 'created',
+            startedAt: event.at,
+            lastActivityAt: event.at,
+            version: event.version,
+        };
+    }
+    if (event.type === 'session-imported') {
+        const imported = structuredClone(event.session) as InterviewSession & { totalVideoQuestions?: number };
+        imported.sections ??= legacySections(imported.totalVideoQuestions ?? 3);
+        imported.profile ??= resolveRoleProfile(imported.role).profile;
+        imported.questionSource ??= 'ai';
+        delete imported.totalVideoQuestions;
+        return { ...imported, version: event.version };
+    }
+    if (!session) throw new Error(`Event ${event.seq} (${event.type}) has no session to apply to`);
+
+    switch (event.type) {
+        case 'question-asked':
+            session.questions.push(structuredClone(event.question));
+            session.currentQuestionIndex = session.questions.length;
+            session.phase = event.question.type === 'code' ? 'coding' : 'video';
+            session.lastActivityAt = event.at;
+            break;
+        case 'answer-recorded': {
+            const question = questionOf(session, event.questionId);
+            question.answer = event.answer;
+            question.skipped = event.skipped;
+            question.injectionFlags = event.injectionFlags;
+            session.lastActivityAt = event.at;
+            break;
+        }
+        case 'evaluation-recorded':
+            questionOf(session, event.questionId).evaluation = structuredClone(event.evaluation);
+            break;
+        case 'difficulty-changed':
+            session.currentDifficulty = event.to;
+            break;
+        case 'code-reviewed':
+            questionOf(session, event.questionId).codeReview = structuredClone(event.review);
+            break;
+        case 'agent-merge-applied':
+            // Audit record only: the change it produced follows as its own event
+            break;
+        case 'analysis-started':
+            session.phase = 'analysing';
+            break;
+        case 'analysis-cancelled':
+            session.phase = event.phase;
+            break;
+        case 'analysis-produced':
+            session.phase = event.phase;
+            session.completedAt = event.at;
+            session.analysis = structuredClone(event.analysis);
+            break;
+        case 'usage-recorded': {
+            const totals = session.usage ??= { total: emptyTotals(), byRole: {} };
+            addUsage(totals.total, event.usage, event.costUsd);
+            addUsage(totals.byRole[event.role] ??= emptyTotals(), event.usage, event.costUsd);
+            break;
+        }
+        case 'budget-exceeded':
+            (session.usage ??= { total: emptyTotals(), byRole: {} }).budgetExceededAt = event.at;
+            break;
+    }
+    session.version = event.version;
+    return session;
+}
+
+/**
+ * The session as of the last event given.
+ */
+export function replayEvents(events: SessionEvent[]): InterviewSession | undefined {
+    return events.reduce<InterviewSession | undefined>(applyEvent, undefined);
+}
@@ -0,0 +1,150 @@
+/**
+ * Session Lifecycle
+ * A background sweeper that ends sessions the candidate walked away from and
+ * deletes old ones:
+ *
+ * - not ended, no candidate activity for SESSION_IDLE_TIMEOUT_MINUTES (60) → abandoned
+ * - not ended, started more than SESSION_MAX_DURATION_MINUTES (180) ago → expired
+ *   (or the session template's maxDurationMinutes)
+ * - ended more than SESSION_RETENTION_DAYS (30) ago → deleted (0 keeps them forever)
+ *
+ * Abandoned and expired sessions get a partial analysis of what was answered.
+ * The sweep runs every SESSION_SWEEP_INTERVAL_SECONDS (60; 0 disables it).
+ */
+import { generateAnalysis, type EarlyEnd } from './analysis.js';
+import { clearTrace } from './agentTrace.js';
+import { clearIdempotencyKeys } from './idempotency.js';
+import { isEnded } from './interviewPhases.js';
+import { cancelAgentCalls, endConversations } from './conversations.js';
+import {
+    completeSession,
+    deleteSession,
+    getSession,
+    listSessionSummaries,
+    SessionConflictError,
+} from './sessionManager.js';
+import type { SessionSummary } from './storage/index.js';
+
+export interface LifecycleConfig {
+    idleTimeoutMs: number;
+    maxDurationMs: number;
+    /** 0 = never delete */
+    retentionMs: number;
+    sweepIntervalMs: number;
+}
+
+export interface SweepResult {
+    abandoned: string[];
+    expired: string[];
+    deleted: string[];
+}
+
+function readNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`${name} must be a non-negative number (got "${raw}")`);
+    }
+    return value;
+}
+
+export function getLifecycleConfig(): LifecycleConfig {
+    return {
+        idleTimeoutMs: readNumber('SESSION_IDLE_TIMEOUT_MINUTES', 60) * 60_000,
+        maxDurationMs: readNumber('SESSION_MAX_DURATION_MINUTES', 180) * 60_000,
+        retentionMs: readNumber('SESSION_RETENTION_DAYS', 30) * 86_400_000,
+        sweepIntervalMs: readNumber('SESSION_SWEEP_INTERVAL_SECONDS', 60) * 1000,
+    };
+}
+
+function earlyEndFor(summary: SessionSummary, config: LifecycleConfig, now: number): EarlyEnd | undefined {
+    if (isEnded(summary.phase)) return undefined;
+    // The session's template may set its own limit
+    const maxDurationMs = summary.maxDurationMinutes !== undefined ? summary.maxDurationMinutes * 60_000 : config.maxDurationMs;
+    if (now - Date.parse(summary.startedAt) > maxDurationMs) return 'expired';
+    if (now - Date.parse(summary.lastActivityAt) > config.idleTimeoutMs) return 'abandoned';
+    return undefined;
+}
+
+/**
+ * End a session early with a partial analysis of the questions answered so far.
+ * Returns false if the session had already ended or changed in the meantime.
+ */
+export async function endSessionEarly(sessionId: string, reason: EarlyEnd): Promise<boolean> {
+    const session = getSession(sessionId);
+    if (!session || isEnded(session.phase)) return false;
+
+    console.log(`\n⏳ Session ${sessionId} ${reason}: generating partial analysis`);
+    cancelAgentCalls(sessionId);
+    const baseVersion = session.version;
+    const analysis = await generateAnalysis(session, reason);
+    try {
+        completeSession(sessionId, analysis, reason, baseVersion);
+    } catch (err) {
+        // The candidate came back while the report was being written
+        if (!(err instanceof SessionConflictError)) throw err;
+        console.warn(`  ⚠ Session ${sessionId} changed during its partial analysis — left open`);
+        return false;
+    }
+    endConversations(sessionId);
+    return true;
+}
+
+let sweeping = false;
+
+/**
+ * One pass over every session. Skipped if the previous pass is still running.
+ */
+export async function sweepSessions(config: LifecycleConfig = getLifecycleConfig()): Promise<SweepResult> {
+    const result: SweepResult = { abandoned: [], expired: [], deleted: [] };
+    if (sweeping) return result;
+    sweeping = true;
+
+    try {
+        const now = Date.now();
+        for (const summary of listSessionSummaries()) {
+            const earlyEnd = earlyEndFor(summary, config, now);
+            if (earlyEnd) {
+                try {
+                    if (await endSessionEarly(summary.id, earlyEnd)) result[earlyEnd].push(summary.id);
+                } catch (err) {
+                    console.error(`❌ Could not end session ${summary.id}: ${(err as Error).message}`);
+                }
+                continue;
+            }
+
+            const endedAt = summary.completedAt ?? summary.lastActivityAt;
+            if (isEnded(summary.phase) && config.retentionMs > 0 && now - Date.parse(endedAt) > config.retentionMs) {
+                deleteSession(summary.id);
+                clearTrace(summary.id);
+                clearIdempotencyKeys(summary.id);
+                endConversations(summary.id);
+                result.deleted.push(summary.id);
+            }
+        }
+    } finally {
+        sweeping = false;
+    }
+
+    const { abandoned, expired, deleted } = result;
+    if (abandoned.length + expired.length + deleted.length > 0) {
+        console.log(`🧹 Session sweep: ${abandoned.length} abandoned, ${expired.length} expired, ${deleted.length} deleted`);
+    }
+    return result;
+}
+
+let timer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Start the periodic sweep. Does not keep the process alive on its own.
+ * Call at startup so invalid settings fail fast.
+ */
+export function startSessionSweeper(): void {
+    const config = getLifecycleConfig();
+    if (timer || config.sweepIntervalMs === 0) return;
+    timer = setInterval(() => {
+        sweepSessions(config).catch(err => console.error('❌ Session sweep failed:', err));
+    }, config.sweepIntervalMs);
+    timer.unref();
+}
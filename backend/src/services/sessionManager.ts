@@ -1,8 +1,30 @@
 /**
  * Interview Session Manager
- * Tracks interview state, question history, and difficulty progression
+ * Tracks interview state, question history, and difficulty progression.
+ * Every change is recorded as an event (see sessionEvents.ts) and appended to
+ * the configured store (see storage/); sessions are rebuilt from their events.
  */
 import { v4 as uuidv4 } from 'uuid';
+import type { AgentRole } from './agents.js';
+import type { Rubric } from './agentSchemas.js';
+import type { EvaluationEnsemble } from './evaluatorEnsemble.js';
+import { getDefaultRubric, type CriterionResult } from './rubrics.js';
+import { detectInjection } from './promptInjection.js';
+import { getSessionStore, type SessionSummary } from './storage/index.js';
+import { canTransition, type InterviewPhase } from './interviewPhases.js';
+import { getNextSection, type InterviewTemplate, type TemplateSection } from './interviewTemplates.js';
+import { getFollowUpsLeft, isFollowUp } from './followUps.js';
+import { getDefaultQuestionSource, type QuestionSource } from './questionBank.js';
+import type { RoleProfile } from './roleProfiles.js';
+import {
+    applyEvent,
+    isBookkeeping,
+    replayEvents,
+    type AgentMerge,
+    type SessionChange,
+    type SessionEvent,
+} from './sessionEvents.js';
+import { getBudgetViolation, type SessionUsage, type TokenUsage } from './usage.js';
 
 
 export type Difficulty = 'easy' | 'medium' | 'hard';
@@ -22,23 +44,47 @@ export interface QuestionRecord {
     difficulty: Difficulty;
     starterCode?: string;
     language?: string;
+    /** Criteria the answer is scored against */
+    rubric?: Rubric;
+    /** Template section the question was asked in */
+    section?: string;
+    /** Question bank entry it was taken from (or seeded from) */
+    bankId?: string;
+    /** The question this one follows up on (see followUps.ts) */
+    parentId?: number;
     answer?: string;
     skipped?: boolean;
+    /** Injection-like phrases found in the answer (set by recordAnswer) */
+    injectionFlags?: string[];
     evaluation?: {
         score: number;
+        /** Per-criterion breakdown the score was computed from */
+        criteria?: CriterionResult[];
         nextDifficulty: Difficulty;
         strengths: string[];
         weaknesses: string[];
         brief: string;
+        /** Prompt template that produced this evaluation (`<id>@<version>`) */
+        promptVersion?: string;
+        /** Individual runs, when the answer was scored by an evaluator ensemble */
+        ensemble?: EvaluationEnsemble;
+        /** The answer was flagged as a possible prompt injection */
+        suspect?: boolean;
     };
     codeReview?: {
         score: number;
+        /** Per-criterion breakdown the score was computed from */
+        criteria?: CriterionResult[];
         correctness: boolean;
         timeComplexity: string;
         spaceComplexity: string;
         strengths: string[];
         issues: string[];
         brief: string;
+        /** Prompt template that produced this review (`<id>@<version>`) */
+        promptVersion?: string;
+        /** The code was flagged as a possible prompt injection */
+        suspect?: boolean;
     };
 }
 
@@ -46,162 +92,327 @@ export interface InterviewSession {
     id: string;
     role: string;
     company: string;
+    /** Skills, topics and seniority expectations for the role, as they were when the session started */
+    profile: RoleProfile;
+    /** Interview template the session was started from, used for agent routing */
+    template?: string;
+    /** The template's sections, as they were when the session started */
+    sections: TemplateSection[];
+    /** Overrides SESSION_MAX_DURATION_MINUTES for this session */
+    maxDurationMinutes?: number;
+    /** Where questions come from: the interviewer, the question bank, or both */
+    questionSource: QuestionSource;
     currentDifficulty: Difficulty;
     currentQuestionIndex: number;
-    totalVideoQuestions: number;
     questions: QuestionRecord[];
+    /** Where the session is in the interview state machine (see interviewPhases.ts) */
+    phase: InterviewPhase;
     startedAt: string;
+    /** Last time the candidate did something: started, was asked or answered */
+    lastActivityAt: string;
+    /** When the session stopped being active, whatever the reason */
     completedAt?: string;
     analysis?: Record<string, unknown>;
+    /** Agent token usage and cost, per role and in total */
+    usage?: SessionUsage;
+    /** Bumped on every change to the interview (not on usage bookkeeping) */
+    version: number;
 }
 
-// In-memory session store
-const sessions = new Map<string, InterviewSession>();
+/**
+ * A change was prepared against an older version of the session than the one
+ * now stored: another request changed it in the meantime.
+ */
+export class SessionConflictError extends Error {
+    constructor(sessionId: string, readonly expectedVersion: number, readonly actualVersion: number) {
+        super(`Session ${sessionId} changed while this update was prepared (version ${expectedVersion}, now ${actualVersion})`);
+        this.name = 'SessionConflictError';
+    }
+}
+
+// Live sessions and the seq of their last event
+const sessions = new Map<string, { session: InterviewSession; lastSeq: number }>();
 
-export function createSession(role: string, company: string): InterviewSession {
-    const session: InterviewSession = {
-        id: uuidv4(),
+/**
+ * Record changes as events: apply them to the live session (so references
+ * already handed out stay current) and append them to the store.
+ * The version is bumped once per commit unless it only does bookkeeping.
+ */
+function commit(session: InterviewSession | undefined, changes: SessionChange[]): InterviewSession {
+    const live = session && sessions.get(session.id);
+    const at = new Date().toISOString();
+    const version = (session?.version ?? 0) + (changes.some(c => !isBookkeeping(c)) ? 1 : 0);
+    let seq = live?.lastSeq ?? 0;
+    const events: SessionEvent[] = changes.map(change => ({ ...change, seq: ++seq, at, version }));
+
+    const updated = events.reduce<InterviewSession | undefined>(applyEvent, session)!;
+    sessions.set(updated.id, { session: updated, lastSeq: seq });
+    getSessionStore().append(updated, events);
+    return updated;
+}
+
+function checkTransition(session: InterviewSession, to: InterviewPhase): void {
+    if (!canTransition(session.phase, to)) {
+        throw new Error(`Session ${session.id} cannot go from ${session.phase} to ${to}`);
+    }
+}
+
+/** The merge record for a change an agent made, if it came from one */
+function mergeEvent(merge?: AgentMerge): SessionChange[] {
+    return merge ? [{ type: 'agent-merge-applied', ...merge }] : [];
+}
+
+export function createSession(
+    role: string,
+    company: string,
+    profile: RoleProfile,
+    template: InterviewTemplate
+): InterviewSession {
+    const session = commit(undefined, [{
+        type: 'session-created',
+        sessionId: uuidv4(),
         role,
         company,
-        currentDifficulty: 'medium',
-        currentQuestionIndex: 0,
-        totalVideoQuestions: 3,
-        questions: [],
-        startedAt: new Date().toISOString(),
-    };
-
-    sessions.set(session.id, session);
-    console.log(`📝 Session created: ${session.id} (${role} @ ${company})`);
+        profile: structuredClone(profile),
+        template: template.id,
+        difficulty: template.startingDifficulty,
+        sections: structuredClone(template.sections),
+        maxDurationMinutes: template.maxDurationMinutes,
+        questionSource: template.questionSource ?? getDefaultQuestionSource(),
+    }]);
+
+    console.log(`📝 Session created: ${session.id} (${role} @ ${company}, profile ${profile.id}/${profile.seniority}, template ${template.id}, questions from ${session.questionSource})`);
     return session;
 }
 
+/**
+ * Live session, or the stored one (rebuilt from its events) after a restart.
+ */
 export function getSession(sessionId: string): InterviewSession | undefined {
-    return sessions.get(sessionId);
+    const live = sessions.get(sessionId);
+    if (live) return live.session;
+
+    const events = getSessionStore().loadEvents(sessionId);
+    const stored = replayEvents(events);
+    if (stored) sessions.set(sessionId, { session: stored, lastSeq: events[events.length - 1].seq });
+    return stored;
 }
 
-export function addQuestion(sessionId: string, question: Omit<QuestionRecord, 'id'>): QuestionRecord {
-    const session = sessions.get(sessionId);
+/**
+ * The session's event log, oldest first.
+ */
+export function getSessionEvents(sessionId: string): SessionEvent[] | undefined {
+    if (!getSession(sessionId)) return undefined;
+    return getSessionStore().loadEvents(sessionId);
+}
+
+/**
+ * The session as it was right after event `seq`.
+ */
+export function getSessionAt(sessionId: string, seq: number): InterviewSession | undefined {
+    return replayEvents((getSessionEvents(sessionId) ?? []).filter(event => event.seq <= seq));
+}
+
+/**
+ * The session to change. With `expectedVersion` (the version an agent call
+ * started from), refuses if the session has moved on since.
+ */
+function getForUpdate(sessionId: string, expectedVersion?: number): InterviewSession {
+    const session = getSession(sessionId);
     if (!session) throw new Error(`Session ${sessionId} not found`);
+    if (expectedVersion !== undefined && session.version !== expectedVersion) {
+        throw new SessionConflictError(sessionId, expectedVersion, session.version);
+    }
+    return session;
+}
+
+export function addQuestion(
+    sessionId: string,
+    question: Omit<QuestionRecord, 'id'>,
+    expectedVersion?: number,
+    merge?: AgentMerge
+): QuestionRecord {
+    const session = getForUpdate(sessionId, expectedVersion);
+
+    const section = getNextSection(session);
+    if (!section) throw new Error(`Session ${sessionId} already has all its questions`);
+    if (section.type !== question.type) {
+        throw new Error(`Session ${sessionId} expects a ${section.type} question for section ${section.id}, got ${question.type}`);
+    }
 
     const record: QuestionRecord = {
         ...question,
         id: session.questions.length + 1,
+        rubric: question.rubric ?? getDefaultRubric(question.type),
+        section: section.id,
     };
 
-    session.questions.push(record);
-    session.currentQuestionIndex = session.questions.length;
-    sessions.set(sessionId, session);
+    checkTransition(session, record.type === 'code' ? 'coding' : 'video');
+    commit(session, [...mergeEvent(merge), { type: 'question-asked', question: record }]);
+
+    return record;
+}
+
+/**
+ * Ask a follow-up on question `parentId`, after its thread was answered.
+ * Takes none of the template's questions.
+ */
+export function addFollowUp(
+    sessionId: string,
+    parentId: number,
+    followUp: Pick<QuestionRecord, 'text' | 'title'>,
+    expectedVersion?: number,
+    merge?: AgentMerge
+): QuestionRecord {
+    const session = getForUpdate(sessionId, expectedVersion);
+
+    const parent = session.questions.find(q => q.id === parentId);
+    if (!parent) throw new Error(`Question ${parentId} not found`);
+    if (parent.type !== 'video' || isFollowUp(parent)) {
+        throw new Error(`Question ${parentId} cannot be followed up`);
+    }
+    if (getFollowUpsLeft(session, parent) === 0) throw new Error(`Question ${parentId} has no follow-ups left`);
+    const pending = session.questions.find(q => q.answer === undefined);
+    if (pending) throw new Error(`Question ${pending.id} has not been answered yet`);
+
+    const record: QuestionRecord = {
+        id: session.questions.length + 1,
+        type: 'video',
+        text: followUp.text,
+        title: followUp.title ?? (parent.title && `${parent.title} (follow-up)`),
+        difficulty: parent.difficulty,
+        section: parent.section,
+        parentId,
+    };
+
+    checkTransition(session, 'video');
+    commit(session, [...mergeEvent(merge), { type: 'question-asked', question: record }]);
 
     return record;
 }
 
 export function recordAnswer(sessionId: string, questionId: number, answer: string, skipped: boolean = false): void {
-    const session = sessions.get(sessionId);
-    if (!session) throw new Error(`Session ${sessionId} not found`);
+    const session = getForUpdate(sessionId);
 
     const question = session.questions.find(q => q.id === questionId);
     if (!question) throw new Error(`Question ${questionId} not found in session`);
 
-    question.answer = answer;
-    question.skipped = skipped;
-    sessions.set(sessionId, session);
+    const flags = detectInjection(answer, question.type);
+    if (flags.length > 0) {
+        console.warn(`🛡 Possible prompt injection in Q${questionId} (session ${sessionId}): ${flags.map(f => `"${f}"`).join(', ')}`);
+    }
+
+    commit(session, [{
+        type: 'answer-recorded',
+        questionId,
+        answer,
+        skipped,
+        injectionFlags: flags.length > 0 ? flags : undefined,
+    }]);
 }
 
 export function recordEvaluation(
     sessionId: string,
     questionId: number,
-    evaluation: QuestionRecord['evaluation']
+    evaluation: QuestionRecord['evaluation'],
+    expectedVersion?: number,
+    merge?: AgentMerge
 ): void {
-    const session = sessions.get(sessionId);
-    if (!session) throw new Error(`Session ${sessionId} not found`);
+    const session = getForUpdate(sessionId, expectedVersion);
 
     const question = session.questions.find(q => q.id === questionId);
     if (!question) throw new Error(`Question ${questionId} not found`);
 
-    question.evaluation = evaluation;
+    const changes: SessionChange[] = [...mergeEvent(merge), { type: 'evaluation-recorded', questionId, evaluation }];
 
     // Update session difficulty for next question
-    if (evaluation) {
-        session.currentDifficulty = evaluation.nextDifficulty;
+    if (evaluation && evaluation.nextDifficulty !== session.currentDifficulty) {
+        changes.push({ type: 'difficulty-changed', from: session.currentDifficulty, to: evaluation.nextDifficulty });
     }
 
-    sessions.set(sessionId, session);
+    commit(session, changes);
 }
 
 export function recordCodeReview(
     sessionId: string,
     questionId: number,
-    review: QuestionRecord['codeReview']
+    review: QuestionRecord['codeReview'],
+    expectedVersion?: number,
+    merge?: AgentMerge
 ): void {
-    const session = sessions.get(sessionId);
-    if (!session) throw new Error(`Session ${sessionId} not found`);
+    const session = getForUpdate(sessionId, expectedVersion);
 
     const question = session.questions.find(q => q.id === questionId);
     if (!question) throw new Error(`Question ${questionId} not found`);
 
-    question.codeReview = review;
-    sessions.set(sessionId, session);
+    commit(session, [...mergeEvent(merge), { type: 'code-reviewed', questionId, review }]);
 }
 
-export function completeSession(sessionId: string, analysis: Record<string, unknown>): void {
-    const session = sessions.get(sessionId);
-    if (!session) throw new Error(`Session ${sessionId} not found`);
+/**
+ * Mark the session as being analysed, so it takes no more answers.
+ */
+export function startAnalysis(sessionId: string): void {
+    const session = getForUpdate(sessionId);
 
-    session.completedAt = new Date().toISOString();
-    session.analysis = analysis;
-    sessions.set(sessionId, session);
+    checkTransition(session, 'analysing');
+    commit(session, [{ type: 'analysis-started' }]);
 }
 
 /**
- * Update the session with new data.
- * This is used when an agent returns an updated session object.
+ * Take the session out of analysis after its analysis call was cancelled,
+ * back to the phase it was in, so the analysis can be started again.
  */
-export function updateSession(sessionId: string, updates: Partial<InterviewSession>): InterviewSession {
-    const session = sessions.get(sessionId);
-    if (!session) throw new Error(`Session ${sessionId} not found`);
+export function cancelAnalysis(sessionId: string, phase: Extract<InterviewPhase, 'video' | 'coding'>): void {
+    const session = getForUpdate(sessionId);
 
-    // Merge updates into the session
-    // We do a shallow merge for top-level properties
-    const updatedSession = { ...session, ...updates };
+    checkTransition(session, phase);
+    commit(session, [{ type: 'analysis-cancelled', phase }]);
+}
 
-    // Ensure ID and immutable properties are not overwritten (unless we really want to, but safety first)
-    updatedSession.id = session.id;
+/**
+ * End the session with its (possibly partial) analysis.
+ */
+export function completeSession(
+    sessionId: string,
+    analysis: Record<string, unknown>,
+    phase: Extract<InterviewPhase, 'completed' | 'abandoned' | 'expired'> = 'completed',
+    expectedVersion?: number
+): void {
+    const session = getForUpdate(sessionId, expectedVersion);
 
-    // Sanitize questions: Ensure they all have IDs
-    if (updatedSession.questions) {
-        updatedSession.questions = updatedSession.questions.map((q, index) => ({
-            ...q,
-            id: q.id || (index + 1),
-        }));
-    }
+    checkTransition(session, phase);
+    commit(session, [{ type: 'analysis-produced', phase, analysis }]);
+}
 
-    sessions.set(sessionId, updatedSession);
-    return updatedSession;
+/**
+ * Remove the session, and its events, from memory and from the store.
+ */
+export function deleteSession(sessionId: string): void {
+    sessions.delete(sessionId);
+    getSessionStore().delete(sessionId);
 }
 
 /**
- * Build a context string summarizing all previous Q&A for the interviewer
+ * Phase and timestamps of every session, live or stored.
  */
-export function buildInterviewContext(session: InterviewSession): string {
-    const previousTitles = session.questions.map(q => `"${q.title || q.text.substring(0, 50)}..."`).join(', ');
-
-    let context = `PREVIOUSLY ASKED QUESTIONS (DO NOT REPEAT): ${previousTitles}\n\n`;
-    context += `INTERVIEW HISTORY:\n`;
-
-    if (session.questions.length === 0) return context + 'No previous questions yet.';
-
-    context += session.questions.map((q, i) => {
-        let ctx = `Q${i + 1} [${q.difficulty}]: ${q.text}\n`;
-        if (q.skipped) {
-            ctx += `Status: SKIPPED (Candidate passed)\n`;
-        } else if (q.answer) {
-            ctx += `Answer: ${q.answer}\n`;
-        }
-        if (q.evaluation) {
-            ctx += `Score: ${q.evaluation.score}/100 | ${q.evaluation.brief}\n`;
-        }
-        return ctx;
-    }).join('\n');
-
-    return context;
+export function listSessionSummaries(): SessionSummary[] {
+    const summaries = new Map(getSessionStore().list().map(s => [s.id, s]));
+    for (const { session: { id, phase, startedAt, lastActivityAt, completedAt, maxDurationMinutes } } of sessions.values()) {
+        summaries.set(id, { id, phase, startedAt, lastActivityAt, completedAt, maxDurationMinutes });
+    }
+    return [...summaries.values()];
+}
+
+/**
+ * Add one agent call's token usage and cost to the session totals.
+ */
+export function recordAgentUsage(sessionId: string, role: AgentRole, usage: TokenUsage, costUsd: number): SessionUsage {
+    const session = commit(getForUpdate(sessionId), [{ type: 'usage-recorded', role, usage, costUsd }]);
+
+    const violation = session.usage?.budgetExceededAt ? undefined : getBudgetViolation(session);
+    if (violation) {
+        commit(session, [{ type: 'budget-exceeded', reason: violation }]);
+        console.warn(`💸 Session ${sessionId} over budget: ${violation}`);
+    }
+    return session.usage!;
 }
@@ -0,0 +1,53 @@
+/**
+ * Session store registry
+ * SESSION_STORE picks the backend (sqlite by default); SESSION_STORE_PATH
+ * overrides where it writes (default backend/data/sessions.db or sessions.json).
+ */
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { openJsonStore } from './jsonFile.js';
+import { openMemoryStore } from './memory.js';
+import { openSqliteStore } from './sqlite.js';
+import { STORE_KINDS, type SessionRepository, type StoreKind } from './types.js';
+
+export type { SessionRepository, SessionSummary, StoreKind } from './types.js';
+
+let store: SessionRepository | undefined;
+
+function getStoreKind(): StoreKind {
+    const configured = (process.env.SESSION_STORE || 'sqlite').toLowerCase();
+    if (!(STORE_KINDS as string[]).includes(configured)) {
+        throw new Error(`SESSION_STORE must be one of ${STORE_KINDS.join(', ')} (got "${configured}")`);
+    }
+    return configured as StoreKind;
+}
+
+function getStorePath(kind: StoreKind): string {
+    const configured = process.env.SESSION_STORE_PATH;
+    // src/services/storage → backend/data (same depth from dist/services/storage)
+    return configured
+        ? resolve(configured)
+        : fileURLToPath(new URL(`../../../data/sessions.${kind === 'sqlite' ? 'db' : 'json'}`, import.meta.url));
+}
+
+/**
+ * Open the configured store and run its migrations.
+ * Call at startup so a bad path or a newer schema fails fast.
+ */
+export function openSessionStore(): SessionRepository {
+    if (store) return store;
+
+    const kind = getStoreKind();
+    if (kind === 'memory') {
+        store = openMemoryStore();
+    } else {
+        const path = getStorePath(kind);
+        store = kind === 'sqlite' ? openSqliteStore(path) : openJsonStore(path);
+    }
+    return store;
+}
+
+/** The open store, opening it on first use */
+export function getSessionStore(): SessionRepository {
+    return store ?? openSessionStore();
+}
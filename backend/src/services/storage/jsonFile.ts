@@ -0,0 +1,184 @@
+/**
+ * JSON-file store
+ * All sessions in one file, rewritten atomically (temp file + rename) on every
+ * append. Simple to inspect and back up; meant for a single backend process and
+ * modest volumes — use SQLite beyond that. `events` holds each session's log;
+ * `sessions` holds what the log currently adds up to, for listing; `questions`
+ * is the question bank.
+ *
+ *   { "schemaVersion": 6, "sessions": { "<id>": { ...session } }, "events": { "<id>": [ ...events ] },
+ *     "questions": { "<id>": { ...question } } }
+ */
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { InterviewPhase } from '../interviewPhases.js';
+import type { BankQuestion } from '../questionBank.js';
+import { seedQuestions } from '../questionBankSeed.js';
+import type { SessionEvent } from '../sessionEvents.js';
+import type { InterviewSession } from '../sessionManager.js';
+import type { Migration, SessionRepository } from './types.js';
+
+interface StoreFile {
+    schemaVersion: number;
+    sessions: Record<string, InterviewSession>;
+    events: Record<string, SessionEvent[]>;
+    questions: Record<string, BankQuestion>;
+}
+
+/** Fields older schema versions had */
+function legacy(session: InterviewSession): { status?: string } {
+    return session as unknown as { status?: string };
+}
+
+const MIGRATIONS: Migration<StoreFile>[] = [
+    {
+        version: 1,
+        name: 'initial',
+        up: file => {
+            file.sessions ??= {};
+        },
+    },
+    {
+        version: 2,
+        name: 'session status and last activity',
+        up: file => {
+            for (const session of Object.values(file.sessions)) {
+                legacy(session).status ??= session.completedAt ? 'completed' : 'active';
+                session.lastActivityAt ??= session.completedAt ?? session.startedAt;
+            }
+        },
+    },
+    {
+        version: 3,
+        name: 'status replaced by interview phase',
+        up: file => {
+            for (const session of Object.values(file.sessions)) {
+                const { status } = legacy(session);
+                if (status === undefined) continue;
+                const last = session.questions[session.questions.length - 1];
+                session.phase = status !== 'active' ? status as InterviewPhase
+                    : last?.type === 'code' ? 'coding'
+                    : last ? 'video'
+                    : 'created';
+                delete legacy(session).status;
+            }
+        },
+    },
+    {
+        version: 4,
+        name: 'session version',
+        up: file => {
+            for (const session of Object.values(file.sessions)) {
+                session.version ??= 1;
+            }
+        },
+    },
+    {
+        version: 5,
+        name: 'session event log',
+        up: file => {
+            file.events ??= {};
+            for (const session of Object.values(file.sessions)) {
+                // How the session got here was not recorded: start its log from a snapshot
+                file.events[session.id] ??= [{
+                    type: 'session-imported',
+                    session: structuredClone(session),
+                    seq: 1,
+                    at: session.completedAt ?? session.lastActivityAt,
+                    version: session.version,
+                }];
+            }
+        },
+    },
+    {
+        version: 6,
+        name: 'question bank',
+        up: file => {
+            for (const question of seedQuestions()) {
+                file.questions[question.id] ??= question;
+            }
+        },
+    },
+];
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function readStoreFile(path: string): StoreFile {
+    if (!existsSync(path)) return { schemaVersion: 0, sessions: {}, events: {}, questions: {} };
+
+    let json: unknown;
+    try {
+        json = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (err) {
+        throw new Error(`Session store ${path}: not valid JSON (${(err as Error).message})`);
+    }
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new Error(`Session store ${path}: expected an object`);
+    }
+    const file = json as Partial<StoreFile>;
+    return {
+        schemaVersion: file.schemaVersion ?? 0,
+        sessions: file.sessions ?? {},
+        events: file.events ?? {},
+        questions: file.questions ?? {},
+    };
+}
+
+function writeStoreFile(path: string, file: StoreFile): void {
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(file));
+    renameSync(tmp, path);
+}
+
+export function openJsonStore(path: string): SessionRepository {
+    mkdirSync(dirname(path), { recursive: true });
+    const file = readStoreFile(path);
+
+    if (file.schemaVersion > LATEST_VERSION) {
+        throw new Error(`Session store ${path}: schema v${file.schemaVersion} is newer than this backend (v${LATEST_VERSION})`);
+    }
+    const pending = MIGRATIONS.filter(m => m.version > file.schemaVersion);
+    for (const migration of pending) {
+        migration.up(file);
+        file.schemaVersion = migration.version;
+        console.log(`  💾 Session store migrated to v${migration.version} (${migration.name})`);
+    }
+    if (pending.length > 0) writeStoreFile(path, file);
+
+    return {
+        kind: 'json',
+        location: path,
+        // Hand out copies: the stored log changes only through append()
+        loadEvents: sessionId => structuredClone(file.events[sessionId] ?? []),
+        append: (session, events) => {
+            file.sessions[session.id] = structuredClone(session);
+            (file.events[session.id] ??= []).push(...structuredClone(events));
+            writeStoreFile(path, file);
+        },
+        delete: sessionId => {
+            if (!(sessionId in file.sessions)) return;
+            delete file.sessions[sessionId];
+            delete file.events[sessionId];
+            writeStoreFile(path, file);
+        },
+        list: () => Object.values(file.sessions).map(({ id, phase, startedAt, lastActivityAt, completedAt, maxDurationMinutes }) => ({
+            id, phase, startedAt, lastActivityAt, completedAt, maxDurationMinutes,
+        })),
+        questions: {
+            list: () => structuredClone(Object.values(file.questions)),
+            get: id => structuredClone(file.questions[id]),
+            save: (saved, options) => {
+                if (options?.replace) file.questions = {};
+                for (const question of saved) file.questions[question.id] = structuredClone(question);
+                writeStoreFile(path, file);
+            },
+            delete: id => {
+                if (!(id in file.questions)) return false;
+                delete file.questions[id];
+                writeStoreFile(path, file);
+                return true;
+            },
+        },
+        close: () => {},
+    };
+}
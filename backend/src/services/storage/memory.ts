@@ -0,0 +1,37 @@
+/**
+ * In-memory store: nothing is persisted, sessions end with the process.
+ * The session manager already keeps live sessions in memory, so only the
+ * event logs are kept here, for history and replay. The question bank starts
+ * from the seed questions every time.
+ */
+import type { BankQuestion } from '../questionBank.js';
+import { seedQuestions } from '../questionBankSeed.js';
+import type { SessionEvent } from '../sessionEvents.js';
+import type { SessionRepository } from './types.js';
+
+export function openMemoryStore(): SessionRepository {
+    const logs = new Map<string, SessionEvent[]>();
+    const questions = new Map<string, BankQuestion>(seedQuestions().map(q => [q.id, q]));
+
+    return {
+        kind: 'memory',
+        loadEvents: sessionId => [...logs.get(sessionId) ?? []],
+        append: (session, events) => {
+            logs.set(session.id, [...logs.get(session.id) ?? [], ...events]);
+        },
+        delete: sessionId => {
+            logs.delete(sessionId);
+        },
+        list: () => [],
+        questions: {
+            list: () => structuredClone([...questions.values()]),
+            get: id => structuredClone(questions.get(id)),
+            save: (saved, options) => {
+                if (options?.replace) questions.clear();
+                for (const question of saved) questions.set(question.id, structuredClone(question));
+            },
+            delete: id => questions.delete(id),
+        },
+        close: () => {},
+    };
+}
@@ -0,0 +1,261 @@
+/**
+ * SQLite store (embedded, via better-sqlite3)
+ * Each session's event log lives in `session_events`, one row per event. The
+ * `sessions` row (fields worth querying as columns, the session document as
+ * JSON) and the `analyses` row hold what the log currently adds up to.
+ * `questions` is the question bank. Applied migrations are recorded in
+ * `schema_migrations`.
+ */
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { BankQuestion } from '../questionBank.js';
+import { seedQuestions } from '../questionBankSeed.js';
+import type { SessionEvent } from '../sessionEvents.js';
+import type { InterviewSession } from '../sessionManager.js';
+import type { Migration, SessionRepository, SessionSummary } from './types.js';
+
+type Db = Database.Database;
+
+const MIGRATIONS: Migration<Db>[] = [
+    {
+        version: 1,
+        name: 'sessions and analyses',
+        up: db => db.exec(`
+            CREATE TABLE sessions (
+                id TEXT PRIMARY KEY,
+                role TEXT NOT NULL,
+                company TEXT NOT NULL,
+                started_at TEXT NOT NULL,
+                completed_at TEXT,
+                updated_at TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX sessions_started_at ON sessions (started_at);
+            CREATE TABLE analyses (
+                session_id TEXT PRIMARY KEY REFERENCES sessions (id) ON DELETE CASCADE,
+                created_at TEXT NOT NULL,
+                data TEXT NOT NULL
+            );
+        `),
+    },
+    {
+        version: 2,
+        name: 'session status and last activity',
+        up: db => db.exec(`
+            ALTER TABLE sessions ADD COLUMN status TEXT NOT NULL DEFAULT 'active';
+            ALTER TABLE sessions ADD COLUMN last_activity_at TEXT;
+            UPDATE sessions SET
+                status = CASE WHEN completed_at IS NULL THEN 'active' ELSE 'completed' END,
+                last_activity_at = COALESCE(completed_at, started_at);
+            UPDATE sessions SET data = json_set(data, '$.status', status, '$.lastActivityAt', last_activity_at);
+            CREATE INDEX sessions_status ON sessions (status);
+        `),
+    },
+    {
+        version: 3,
+        name: 'status replaced by interview phase',
+        up: db => db.exec(`
+            DROP INDEX sessions_status;
+            ALTER TABLE sessions RENAME COLUMN status TO phase;
+            UPDATE sessions SET phase = CASE
+                WHEN phase <> 'active' THEN phase
+                WHEN json_extract(data, '$.questions[#-1].type') = 'code' THEN 'coding'
+                WHEN json_array_length(data, '$.questions') > 0 THEN 'video'
+                ELSE 'created'
+            END;
+            UPDATE sessions SET data = json_remove(json_set(data, '$.phase', phase), '$.status');
+            CREATE INDEX sessions_phase ON sessions (phase);
+        `),
+    },
+    {
+        version: 4,
+        name: 'session version',
+        up: db => db.exec(`
+            UPDATE sessions SET data = json_set(data, '$.version', 1)
+            WHERE json_extract(data, '$.version') IS NULL;
+        `),
+    },
+    {
+        version: 5,
+        name: 'session event log',
+        // How existing sessions got here was not recorded: each log starts from a snapshot
+        up: db => db.exec(`
+            CREATE TABLE session_events (
+                session_id TEXT NOT NULL REFERENCES sessions (id) ON DELETE CASCADE,
+                seq INTEGER NOT NULL,
+                type TEXT NOT NULL,
+                at TEXT NOT NULL,
+                data TEXT NOT NULL,
+                PRIMARY KEY (session_id, seq)
+            );
+            INSERT INTO session_events (session_id, seq, type, at, data)
+            SELECT s.id, 1, 'session-imported', COALESCE(s.completed_at, s.last_activity_at), json_object(
+                'type', 'session-imported',
+                'session', CASE WHEN a.data IS NULL THEN json(s.data) ELSE json_set(s.data, '$.analysis', json(a.data)) END,
+                'seq', 1,
+                'at', COALESCE(s.completed_at, s.last_activity_at),
+                'version', json_extract(s.data, '$.version')
+            )
+            FROM sessions s LEFT JOIN analyses a ON a.session_id = s.id;
+        `),
+    },
+    {
+        version: 6,
+        name: 'question bank',
+        up: db => {
+            db.exec(`
+                CREATE TABLE questions (
+                    id TEXT PRIMARY KEY,
+                    type TEXT NOT NULL,
+                    difficulty TEXT NOT NULL,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    data TEXT NOT NULL
+                );
+            `);
+            const insert = db.prepare('INSERT INTO questions (id, type, difficulty, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)');
+            for (const q of seedQuestions()) {
+                insert.run(q.id, q.type, q.difficulty, q.createdAt, q.updatedAt, JSON.stringify(q));
+            }
+        },
+    },
+];
+
+function migrate(db: Db, path: string): void {
+    db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+    )`);
+
+    const { current } = db.prepare('SELECT MAX(version) AS current FROM schema_migrations').get() as { current: number | null };
+    const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+    if ((current ?? 0) > latest) {
+        throw new Error(`Session store ${path}: schema v${current} is newer than this backend (v${latest})`);
+    }
+
+    const record = db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    for (const migration of MIGRATIONS.filter(m => m.version > (current ?? 0))) {
+        // Each migration and its bookkeeping row commit together
+        db.transaction(() => {
+            migration.up(db);
+            record.run(migration.version, migration.name, new Date().toISOString());
+        })();
+        console.log(`  💾 Session store migrated to v${migration.version} (${migration.name})`);
+    }
+}
+
+export function openSqliteStore(path: string): SessionRepository {
+    mkdirSync(dirname(path), { recursive: true });
+    const db = new Database(path);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db, path);
+
+    const selectEvents = db.prepare('SELECT data FROM session_events WHERE session_id = ? ORDER BY seq');
+    const insertEvent = db.prepare('INSERT INTO session_events (session_id, seq, type, at, data) VALUES (?, ?, ?, ?, ?)');
+    const upsertSession = db.prepare(`
+        INSERT INTO sessions (id, role, company, phase, started_at, last_activity_at, completed_at, updated_at, data)
+        VALUES (@id, @role, @company, @phase, @startedAt, @lastActivityAt, @completedAt, @updatedAt, @data)
+        ON CONFLICT (id) DO UPDATE SET
+            role = excluded.role,
+            company = excluded.company,
+            phase = excluded.phase,
+            last_activity_at = excluded.last_activity_at,
+            completed_at = excluded.completed_at,
+            updated_at = excluded.updated_at,
+            data = excluded.data
+    `);
+    const upsertAnalysis = db.prepare(`
+        INSERT INTO analyses (session_id, created_at, data) VALUES (?, ?, ?)
+        ON CONFLICT (session_id) DO UPDATE SET data = excluded.data
+    `);
+    const deleteAnalysis = db.prepare('DELETE FROM analyses WHERE session_id = ?');
+    const deleteSession = db.prepare('DELETE FROM sessions WHERE id = ?');
+    const selectSummaries = db.prepare(`
+        SELECT id, phase, started_at AS startedAt, last_activity_at AS lastActivityAt, completed_at AS completedAt,
+            json_extract(data, '$.maxDurationMinutes') AS maxDurationMinutes
+        FROM sessions
+    `);
+
+    const selectQuestions = db.prepare('SELECT data FROM questions ORDER BY created_at, rowid');
+    const selectQuestion = db.prepare('SELECT data FROM questions WHERE id = ?');
+    const upsertQuestion = db.prepare(`
+        INSERT INTO questions (id, type, difficulty, created_at, updated_at, data)
+        VALUES (@id, @type, @difficulty, @createdAt, @updatedAt, @data)
+        ON CONFLICT (id) DO UPDATE SET
+            type = excluded.type,
+            difficulty = excluded.difficulty,
+            updated_at = excluded.updated_at,
+            data = excluded.data
+    `);
+    const deleteQuestions = db.prepare('DELETE FROM questions');
+    const deleteQuestion = db.prepare('DELETE FROM questions WHERE id = ?');
+
+    const saveQuestions = db.transaction((questions: BankQuestion[], replace: boolean) => {
+        if (replace) deleteQuestions.run();
+        for (const q of questions) {
+            upsertQuestion.run({
+                id: q.id,
+                type: q.type,
+                difficulty: q.difficulty,
+                createdAt: q.createdAt,
+                updatedAt: q.updatedAt,
+                data: JSON.stringify(q),
+            });
+        }
+    });
+
+    // The events and the session they produced commit together
+    const append = db.transaction((session: InterviewSession, events: SessionEvent[]) => {
+        const { analysis, ...rest } = session;
+        const now = new Date().toISOString();
+        upsertSession.run({
+            id: session.id,
+            role: session.role,
+            company: session.company,
+            phase: session.phase,
+            startedAt: session.startedAt,
+            lastActivityAt: session.lastActivityAt,
+            completedAt: session.completedAt ?? null,
+            updatedAt: now,
+            data: JSON.stringify(rest),
+        });
+        if (analysis) {
+            upsertAnalysis.run(session.id, session.completedAt ?? now, JSON.stringify(analysis));
+        } else {
+            deleteAnalysis.run(session.id);
+        }
+        for (const event of events) {
+            insertEvent.run(session.id, event.seq, event.type, event.at, JSON.stringify(event));
+        }
+    });
+
+    return {
+        kind: 'sqlite',
+        location: path,
+        loadEvents: sessionId => (selectEvents.all(sessionId) as Array<{ data: string }>)
+            .map(row => JSON.parse(row.data) as SessionEvent),
+        append: (session, events) => append(session, events),
+        delete: sessionId => {
+            deleteSession.run(sessionId);
+        },
+        list: () => (selectSummaries.all() as Array<SessionSummary & { completedAt: string | null; maxDurationMinutes: number | null }>)
+            .map(({ completedAt, maxDurationMinutes, ...summary }) => ({
+                ...summary,
+                completedAt: completedAt ?? undefined,
+                maxDurationMinutes: maxDurationMinutes ?? undefined,
+            })),
+        questions: {
+            list: () => (selectQuestions.all() as Array<{ data: string }>).map(row => JSON.parse(row.data) as BankQuestion),
+            get: id => {
+                const row = selectQuestion.get(id) as { data: string } | undefined;
+                return row && JSON.parse(row.data) as BankQuestion;
+            },
+            save: (questions, options) => saveQuestions(questions, options?.replace ?? false),
+            delete: id => deleteQuestion.run(id).changes > 0,
+        },
+        close: () => db.close(),
+    };
+}
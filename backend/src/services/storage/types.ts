@@ -0,0 +1,55 @@
+/**
+ * Session storage contract
+ * Every store (in-memory, JSON file, SQLite) implements this, question bank included
+ */
+import type { BankQuestion } from '../questionBank.js';
+import type { SessionEvent } from '../sessionEvents.js';
+import type { InterviewSession } from '../sessionManager.js';
+
+export type StoreKind = 'memory' | 'json' | 'sqlite';
+
+export const STORE_KINDS: StoreKind[] = ['memory', 'json', 'sqlite'];
+
+/** What the lifecycle sweeper needs to know about a stored session */
+export type SessionSummary = Pick<
+    InterviewSession,
+    'id' | 'phase' | 'startedAt' | 'lastActivityAt' | 'completedAt' | 'maxDurationMinutes'
+>;
+
+export interface SessionRepository {
+    readonly kind: StoreKind;
+    /** File the store writes to, if any */
+    readonly location?: string;
+    /** The session's event log, in order (empty if unknown) */
+    loadEvents(sessionId: string): SessionEvent[];
+    /**
+     * Append events to the session's log, together with the session they
+     * produced (kept for listing and querying)
+     */
+    append(session: InterviewSession, events: SessionEvent[]): void;
+    delete(sessionId: string): void;
+    list(): SessionSummary[];
+    /** The question bank, kept in the same store */
+    readonly questions: QuestionRepository;
+    close(): void;
+}
+
+export interface QuestionRepository {
+    /** Oldest first */
+    list(): BankQuestion[];
+    get(id: string): BankQuestion | undefined;
+    /** Insert or update in one write; `replace` removes every question not given */
+    save(questions: BankQuestion[], options?: { replace?: boolean }): void;
+    /** False if there was no such question */
+    delete(id: string): boolean;
+}
+
+/**
+ * One step of a store's schema. Migrations run in order at open time;
+ * each store records the last version it applied.
+ */
+export interface Migration<Target> {
+    version: number;
+    name: string;
+    up(target: Target): void;
+}
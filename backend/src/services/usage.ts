@@ -0,0 +1,98 @@
+/**
+ * Token & Cost Accounting
+ * Usage comes from the provider when it reports it, otherwise it is estimated
+ * from text length (~4 characters per token). Totals are kept on the session
+ * per agent role, and a per-session budget decides whether further calls go to
+ * a cheaper agent or are skipped so the routes fall back gracefully.
+ */
+import type { AgentConfig, AgentRole } from './agents.js';
+import type { InterviewSession } from './sessionManager.js';
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /** True when the provider did not report usage and it was estimated */
+    estimated: boolean;
+}
+
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    /** Tokens that were estimated rather than reported */
+    estimatedTokens: number;
+    costUsd: number;
+}
+
+export interface SessionUsage {
+    total: UsageTotals;
+    byRole: Partial<Record<AgentRole, UsageTotals>>;
+    /** Set once the session budget has been exceeded */
+    budgetExceededAt?: string;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateUsage(prompt: string, completion: string): TokenUsage {
+    return {
+        promptTokens: estimateTokens(prompt),
+        completionTokens: estimateTokens(completion),
+        estimated: true,
+    };
+}
+
+export function emptyTotals(): UsageTotals {
+    return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedTokens: 0, costUsd: 0 };
+}
+
+export function costOf(agent: AgentConfig, usage: TokenUsage): number {
+    const { inputPer1k, outputPer1k } = agent.pricing;
+    return (usage.promptTokens / 1000) * inputPer1k + (usage.completionTokens / 1000) * outputPer1k;
+}
+
+export function addUsage(totals: UsageTotals, usage: TokenUsage, cost: number): void {
+    const tokens = usage.promptTokens + usage.completionTokens;
+    totals.calls += 1;
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += tokens;
+    if (usage.estimated) totals.estimatedTokens += tokens;
+    // Keep cents-level noise out of the totals
+    totals.costUsd = Math.round((totals.costUsd + cost) * 1e6) / 1e6;
+}
+
+interface SessionBudget {
+    maxTokens?: number;
+    maxCostUsd?: number;
+}
+
+function getSessionBudget(): SessionBudget {
+    const maxTokens = Number(process.env.SESSION_TOKEN_BUDGET);
+    const maxCostUsd = Number(process.env.SESSION_COST_BUDGET_USD);
+    return {
+        maxTokens: maxTokens > 0 ? maxTokens : undefined,
+        maxCostUsd: maxCostUsd > 0 ? maxCostUsd : undefined,
+    };
+}
+
+/**
+ * Why the session is over budget, or undefined while it is within budget.
+ */
+export function getBudgetViolation(session: InterviewSession): string | undefined {
+    const total = session.usage?.total;
+    if (!total) return undefined;
+
+    const { maxTokens, maxCostUsd } = getSessionBudget();
+    if (maxTokens !== undefined && total.totalTokens >= maxTokens) {
+        return `token budget exhausted (${total.totalTokens}/${maxTokens})`;
+    }
+    if (maxCostUsd !== undefined && total.costUsd >= maxCostUsd) {
+        return `cost budget exhausted ($${total.costUsd.toFixed(4)}/$${maxCostUsd})`;
+    }
+    return undefined;
+}
@@ -10,8 +10,16 @@ import {
     Cpu,
     MessageSquare,
     Loader2,
+    CornerDownRight,
 } from 'lucide-react';
-import { startInterview, submitAnswer } from '../services/api';
+import {
+    startInterview,
+    submitAnswer,
+    leaveInterview,
+    getSessionState,
+    resumeInterview,
+    type InterviewSection,
+} from '../services/api';
 
 // TypeScript declarations for SpeechRecognition
 interface SpeechRecognitionEvent extends Event {
@@ -46,15 +54,25 @@ interface DynamicQuestion {
     difficulty: string;
     starterCode?: string;
     language?: string;
+    section?: string;
+    /** Set on a follow-up: the question it continues */
+    parentId?: number;
+    timeLimitSeconds?: number;
 }
 
 interface ActiveInterviewViewProps {
     onLeave: () => void;
     onComplete: () => void;
-    startIndex?: number;
+    /** Unfinished session to pick up instead of starting a new one */
+    resumeSessionId?: string | null;
+    /** Interview template for a new session (the backend's default if unset) */
+    template?: string | null;
+    /** Role profile id or title, and company, for a new session (backend defaults if unset) */
+    role?: string | null;
+    company?: string | null;
 }
 
-const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onComplete }) => {
+const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onComplete, resumeSessionId, template, role, company }) => {
     const navigate = useNavigate();
 
     // Session & question state
@@ -62,6 +80,7 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
     const [currentQuestion, setCurrentQuestion] = useState<DynamicQuestion | null>(null);
     const [questionHistory, setQuestionHistory] = useState<DynamicQuestion[]>([]);
     const [totalQuestions, setTotalQuestions] = useState(4);
+    const [sections, setSections] = useState<InterviewSection[]>([]);
     const [isLoadingQuestion, setIsLoadingQuestion] = useState(true);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('Connecting to AI Interviewer...');
@@ -195,9 +214,74 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
                     return;
                 }
 
+                // Resume an unfinished session (page refresh, dropped connection)
+                if (resumeSessionId) {
+                    setLoadingMessage('Restoring your interview...');
+                    let resumed = await getSessionState(resumeSessionId).catch(err => {
+                        console.warn('Could not load previous session, starting a new one:', err);
+                        return null;
+                    });
+
+                    if (cancelled) return;
+
+                    // A refresh while an answer was being scored leaves the next question unasked
+                    if (resumed?.allowedActions.includes('resume')) {
+                        setLoadingMessage('AI Interviewer is preparing your next question...');
+                        const next = await resumeInterview(resumed.sessionId, resumed.questions.length).catch(err => {
+                            console.warn('Could not ask the next question:', err);
+                            return null;
+                        });
+                        if (cancelled) return;
+                        if (next) resumed = await getSessionState(resumed.sessionId).catch(() => null);
+                        if (cancelled) return;
+                    }
+
+                    // Pick up where the backend's state machine says the candidate is
+                    const current = resumed?.currentQuestion ?? null;
+                    const nextAction = !current ? 'complete' : current.type === 'code' ? 'submit-code' : 'answer';
+                    const resumable = resumed?.allowedActions.includes(nextAction) ?? false;
+
+                    if (resumable && !current) {
+                        // Everything answered: only the report is left
+                        stopMicrophone();
+                        onComplete();
+                        return;
+                    }
+
+                    if (resumed && resumable && current) {
+                        let storedTranscripts: Record<number, string> = {};
+                        try {
+                            storedTranscripts = JSON.parse(localStorage.getItem('interviewTranscripts') || '{}');
+                        } catch {
+                            // Unreadable local copy: the backend's answers are enough
+                        }
+                        const transcripts = { ...storedTranscripts, ...resumed.answers };
+
+                        setSessionId(resumed.sessionId);
+                        // A code question sends the candidate straight back to the editor (see below)
+                        setCurrentQuestion(current);
+                        setQuestionHistory(resumed.questions.slice(0, resumed.questions.indexOf(current) + 1));
+                        setTotalQuestions(resumed.totalQuestions);
+                        setSections(resumed.sections);
+                        setAllTranscripts(transcripts);
+                        localStorage.setItem('interviewTranscripts', JSON.stringify(transcripts));
+                        localStorage.setItem('interviewSessionId', resumed.sessionId);
+                        setIsLoadingQuestion(false);
+                        setStatus('countdown');
+                        setTimeLeft(5);
+                        return;
+                    }
+
+                    // Finished or forgotten session: start over
+                    localStorage.removeItem('interviewSessionId');
+                    localStorage.removeItem('interviewTranscripts');
+                    localStorage.removeItem('codingQuestion');
+                    localStorage.removeItem('submittedCode');
+                }
+
                 // Start interview session with backend
                 setLoadingMessage('AI Interviewer is preparing your first question...');
-                const result = await startInterview();
+                const result = await startInterview(role ?? undefined, company ?? undefined, template ?? undefined);
 
                 if (cancelled) return;
 
@@ -205,6 +289,7 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
                 setCurrentQuestion(result.question);
                 setQuestionHistory([result.question]);
                 setTotalQuestions(result.totalQuestions);
+                setSections(result.sections);
                 setIsLoadingQuestion(false);
                 setStatus('countdown');
                 setTimeLeft(5);
@@ -302,6 +387,14 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
         };
     }, [status]);
 
+    // Time's up: submit whatever was said so far
+    useEffect(() => {
+        const limit = currentQuestion?.timeLimitSeconds;
+        if (status === 'recording' && limit && recordingDuration >= limit && !isSubmitting) {
+            handleNext(false);
+        }
+    }, [recordingDuration]);
+
     // ─── Submit Answer & Get Next Question ──────────────
 
     const handleNext = async (skipped: boolean = false) => {
@@ -343,6 +436,9 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
     const handleLeave = () => {
         stopRecognition();
         stopMicrophone();
+        if (sessionId) leaveInterview(sessionId);
+        // Leaving on purpose: the next visit starts a fresh interview
+        localStorage.removeItem('interviewSessionId');
         onLeave();
     };
 
@@ -354,7 +450,11 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
 
     const fullTranscript = transcript + (interimTranscript ? ' ' + interimTranscript : '');
     const hasTranscript = fullTranscript.trim().length >= 2;
-    const currentQNumber = questionHistory.length;
+    // A follow-up continues its question, so it keeps that question's number
+    const currentQNumber = questionHistory.filter(q => q.parentId === undefined).length;
+    const followedUpQuestion = questionHistory.find(q => q.id === currentQuestion?.parentId);
+    const currentSection = sections.find(s => s.id === currentQuestion?.section);
+    const timeLimit = currentQuestion?.timeLimitSeconds;
 
     // ─── Loading State ──────────────────────────────────
 
@@ -412,16 +512,33 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
             {/* SECTION 1: Question & Controls Area */}
             <div className="flex-1 lg:w-1/2 p-4 lg:p-6 flex flex-col gap-4 lg:gap-6 min-h-0 overflow-hidden animate-in slide-in-from-left duration-500 order-1 lg:order-1">
 
-                {/* Progress Bar */}
-                <div className="flex items-center gap-2 shrink-0">
-                    {Array.from({ length: totalQuestions }).map((_, idx) => (
-                        <div
-                            key={idx}
-                            className={`h-1.5 lg:h-2 flex-1 rounded-full transition-all duration-300 ${idx < currentQNumber - 1 ? 'bg-indigo-600' :
-                                idx === currentQNumber - 1 ? 'bg-indigo-600/50' : 'bg-slate-200'
-                                }`}
-                        />
-                    ))}
+                {/* Progress Bar: one group per template section */}
+                <div className="flex items-end gap-3 shrink-0">
+                    {(sections.length > 0 ? sections : [{ id: 'all', name: '', type: 'video' as const, count: totalQuestions }]).map((section, sectionIdx, all) => {
+                        const offset = all.slice(0, sectionIdx).reduce((sum, s) => sum + s.count, 0);
+                        return (
+                            <div key={section.id} className="flex flex-col gap-1" style={{ flexGrow: section.count }}>
+                                {section.name && (
+                                    <span className={`text-[10px] font-bold uppercase tracking-wider ${section.id === currentSection?.id ? 'text-indigo-600' : 'text-slate-400'}`}>
+                                        {section.name}
+                                    </span>
+                                )}
+                                <div className="flex items-center gap-2">
+                                    {Array.from({ length: section.count }).map((_, i) => {
+                                        const idx = offset + i;
+                                        return (
+                                            <div
+                                                key={idx}
+                                                className={`h-1.5 lg:h-2 flex-1 rounded-full transition-all duration-300 ${idx < currentQNumber - 1 ? 'bg-indigo-600' :
+                                                    idx === currentQNumber - 1 ? 'bg-indigo-600/50' : 'bg-slate-200'
+                                                    }`}
+                                            />
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
                 </div>
 
                 {/* Dynamic Content Card */}
@@ -431,7 +548,7 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
                     <div className="mb-4 flex flex-wrap items-center justify-between gap-3 shrink-0">
                         <div className="flex items-center gap-2">
                             <div className="px-3 py-1 bg-indigo-50 text-indigo-700 text-xs font-bold rounded-full uppercase tracking-wider">
-                                {currentQuestion.type === 'code' ? 'Coding Challenge' : `Question ${currentQNumber}/${totalQuestions}`}
+                                {currentQuestion.type === 'code' ? 'Coding Challenge' : `${currentSection ? `${currentSection.name} · ` : ''}Question ${currentQNumber}/${totalQuestions}${followedUpQuestion ? ' · Follow-up' : ''}`}
                             </div>
                             {/* Difficulty badge */}
                             <div className={`px-2 py-0.5 text-[10px] font-bold rounded-full uppercase tracking-wider border ${currentQuestion.difficulty === 'hard'
@@ -452,6 +569,12 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
                     </div>
 
                     <div className="flex-1 flex flex-col min-h-0">
+                        {followedUpQuestion && (
+                            <div className="flex items-start gap-2 mb-2 text-sm text-slate-500">
+                                <CornerDownRight className="w-4 h-4 mt-0.5 shrink-0 text-indigo-400" />
+                                <span>Following up on: {followedUpQuestion.title || followedUpQuestion.text}</span>
+                            </div>
+                        )}
                         <h2 className="text-xl md:text-3xl font-medium text-slate-900 leading-snug mb-4">
                             {currentQuestion.text}
                         </h2>
@@ -558,7 +681,7 @@ const ActiveInterviewView: React.FC<ActiveInterviewViewProps> = ({ onLeave, onCo
                     {status === 'recording' && (
                         <div className="absolute top-4 right-4 z-20 flex items-center gap-2 px-3 py-1.5 bg-red-600 text-white text-xs font-bold rounded-full animate-pulse shadow-lg">
                             <div className="w-2 h-2 bg-white rounded-full" />
-                            REC {formatTime(recordingDuration)}
+                            REC {formatTime(recordingDuration)}{timeLimit ? ` / ${formatTime(timeLimit)}` : ''}
                         </div>
                     )}
                     {status === 'coding' && (
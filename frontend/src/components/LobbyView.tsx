@@ -8,13 +8,27 @@ import {
     CheckCircle2,
     Clock,
 } from 'lucide-react';
-import { INTERVIEW_DATA } from '../data/questions';
+import { getInterviewTemplates, getRoleProfiles } from '../services/api';
 
 interface LobbyViewProps {
     onJoin: () => void;
+    /** Role profile id or job title from the link (the backend's default if unset) */
+    role?: string | null;
+    company?: string | null;
+    template?: string | null;
 }
 
-const LobbyView: React.FC<LobbyViewProps> = ({ onJoin }) => {
+/** What the "Up Next" card shows */
+interface PositionCard {
+    role: string;
+    company: string;
+    seniority?: string;
+    skills: string[];
+    duration: string;
+}
+
+const LobbyView: React.FC<LobbyViewProps> = ({ onJoin, role, company, template }) => {
+    const [position, setPosition] = useState<PositionCard | null>(null);
     const [micActive, setMicActive] = useState<boolean>(false);
     const [camActive, setCamActive] = useState<boolean>(false);
     const [isJoining, setIsJoining] = useState<boolean>(false);
@@ -27,6 +41,33 @@ const LobbyView: React.FC<LobbyViewProps> = ({ onJoin }) => {
     const analyserRef = useRef<AnalyserNode | null>(null);
     const animFrameRef = useRef<number>(0);
 
+    // Describe the position from the backend's role profiles and templates,
+    // the way /start will resolve them
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([getRoleProfiles(), getInterviewTemplates()])
+            .then(([roles, templates]) => {
+                if (cancelled) return;
+                const profileId = role ?? roles.default;
+                const profile = roles.profiles.find(p => p.id === profileId);
+                const chosen = templates.templates.find(t => t.id === (template ?? templates.default));
+                setPosition({
+                    role: profile?.title ?? role ?? 'Software Engineer',
+                    company: company ?? roles.company,
+                    seniority: profile?.seniority,
+                    skills: profile?.skills ?? [],
+                    duration: chosen?.maxDurationMinutes
+                        ? `Up to ${chosen.maxDurationMinutes} min, ${chosen.totalQuestions} questions`
+                        : `${chosen?.totalQuestions ?? '?'} questions`,
+                });
+            })
+            .catch(err => {
+                console.error('Failed to load interview details:', err);
+                if (!cancelled) setPosition({ role: role ?? 'Interview', company: company ?? '', skills: [], duration: 'Unknown' });
+            });
+        return () => { cancelled = true; };
+    }, [role, company, template]);
+
     // Start/stop camera based on camActive state
     const startCamera = useCallback(async () => {
         try {
@@ -201,23 +242,37 @@ const LobbyView: React.FC<LobbyViewProps> = ({ onJoin }) => {
                         <div className="flex justify-between items-start">
                             <div>
                                 <p className="text-sm text-indigo-600 font-bold uppercase tracking-wider mb-1">Up Next</p>
-                                <h2 className="text-xl font-bold text-slate-900">{INTERVIEW_DATA.role}</h2>
-                                <p className="text-slate-500">{INTERVIEW_DATA.company}</p>
+                                <h2 className="text-xl font-bold text-slate-900">{position?.role ?? 'Loading...'}</h2>
+                                <p className="text-slate-500">{position?.company}</p>
                             </div>
                             <div className="w-12 h-12 bg-indigo-50 rounded-lg flex items-center justify-center text-indigo-600 font-bold text-xl">
-                                N
+                                {position?.company.charAt(0).toUpperCase()}
                             </div>
                         </div>
 
                         <div className="space-y-3 pt-4 border-t border-slate-100">
                             <div className="flex items-center gap-3 text-slate-600">
                                 <CheckCircle2 className="w-4 h-4 text-slate-400" />
-                                <span>Interviewer: {INTERVIEW_DATA.interviewer}</span>
+                                <span>Interviewer: AI Evaluator</span>
                             </div>
                             <div className="flex items-center gap-3 text-slate-600">
                                 <Clock className="w-4 h-4 text-slate-400" />
-                                <span>Duration: {INTERVIEW_DATA.duration}</span>
+                                <span>Duration: {position?.duration ?? '...'}</span>
                             </div>
+                            {position && position.skills.length > 0 && (
+                                <div className="flex flex-wrap gap-2 pt-1">
+                                    {position.seniority && (
+                                        <span className="px-2 py-1 rounded-md bg-indigo-50 text-indigo-700 text-xs font-semibold capitalize">
+                                            {position.seniority}
+                                        </span>
+                                    )}
+                                    {position.skills.map(skill => (
+                                        <span key={skill} className="px-2 py-1 rounded-md bg-slate-100 text-slate-600 text-xs">
+                                            {skill}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
 
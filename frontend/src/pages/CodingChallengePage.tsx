@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
     ChevronRight,
@@ -12,8 +12,9 @@ import {
     ArrowLeft,
     Lightbulb,
     Loader2,
+    AlertTriangle,
 } from 'lucide-react';
-import { submitCode } from '../services/api';
+import { submitCode, getSessionState } from '../services/api';
 
 interface CodingQuestionData {
     id: number;
@@ -23,9 +24,27 @@ interface CodingQuestionData {
     difficulty: string;
     starterCode?: string;
     language?: string;
+    timeLimitSeconds?: number;
     sessionId?: string;
 }
 
+/** A submitted solution, kept in localStorage for the completion page */
+interface SubmittedCode {
+    questionId: number;
+    title: string;
+    language: string;
+    code: string;
+}
+
+function readSubmittedCode(): SubmittedCode[] {
+    try {
+        const parsed = JSON.parse(localStorage.getItem('submittedCode') || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
 const CodingChallengePage: React.FC = () => {
     const navigate = useNavigate();
     const [searchParams] = useSearchParams();
@@ -41,28 +60,91 @@ const CodingChallengePage: React.FC = () => {
             const raw = localStorage.getItem('codingQuestion');
             if (raw) {
                 const parsed = JSON.parse(raw) as CodingQuestionData;
-                setQuestionData(parsed);
+                if (!questionId || (parsed.id === questionId && (!parsed.sessionId || parsed.sessionId === sessionId))) {
+                    setQuestionData(parsed);
+                    return;
+                }
             }
         } catch {
             console.error('Failed to load coding question data');
         }
+
+        // Nothing saved for this question (other tab or browser): ask the backend
+        if (!sessionId || !questionId) return;
+        getSessionState(sessionId)
+            .then(state => {
+                if (!state) {
+                    navigate('/');
+                    return;
+                }
+                if (questionId in state.answers) {
+                    // Already submitted: on to the next question (asked there if the
+                    // refresh cancelled it), or only the report is left
+                    localStorage.setItem('interviewSessionId', sessionId);
+                    const questionLeft = state.currentQuestion !== null || state.allowedActions.includes('resume');
+                    navigate(questionLeft ? `/interview?sessionId=${sessionId}` : '/completed');
+                    return;
+                }
+                const question = state.questions.find(q => q.id === questionId);
+                if (question?.type !== 'code' || !state.allowedActions.includes('submit-code')) {
+                    navigate(`/interview?sessionId=${sessionId}`);
+                    return;
+                }
+                localStorage.setItem('interviewSessionId', sessionId);
+                setQuestionData({ ...question, type: 'code', sessionId });
+            })
+            .catch(err => console.error('Failed to load coding question:', err));
     }, []);
 
     const [code, setCode] = useState<string>('');
     const [consoleOutput, setConsoleOutput] = useState<string>('');
     const [isCodeRunning, setIsCodeRunning] = useState<boolean>(false);
     const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<'description' | 'hints'>('description');
     const [showTestResults, setShowTestResults] = useState<boolean>(false);
 
 
-    // Set starter code when question loads
+    // Set starter code when question loads, or the draft from before a refresh
+    const draftKey = `codeDraft:${sessionId}:${questionId}`;
     useEffect(() => {
-        if (questionData?.starterCode) {
+        const draft = localStorage.getItem(draftKey);
+        if (draft !== null) {
+            setCode(draft);
+        } else if (questionData?.starterCode) {
             setCode(questionData.starterCode);
         }
     }, [questionData]);
 
+    const handleCodeChange = (value: string) => {
+        setCode(value);
+        localStorage.setItem(draftKey, value);
+    };
+
+    // Time left on a timed challenge, counted from when it was first opened (survives a refresh)
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+    useEffect(() => {
+        const limit = questionData?.timeLimitSeconds;
+        if (!limit) {
+            setSecondsLeft(null);
+            return;
+        }
+        const startedKey = `codeStartedAt:${sessionId}:${questionData.id}`;
+        const startedAt = Number(localStorage.getItem(startedKey)) || Date.now();
+        localStorage.setItem(startedKey, String(startedAt));
+
+        const tick = () => setSecondsLeft(Math.max(0, limit - Math.floor((Date.now() - startedAt) / 1000)));
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [questionData?.id]);
+
+    // Time's up: submit what is there (handleSubmit is defined once the question has loaded)
+    const submitRef = useRef<(() => void) | null>(null);
+    useEffect(() => {
+        if (secondsLeft === 0 && !isSubmitting) submitRef.current?.();
+    }, [secondsLeft]);
+
     // Start camera on mount
 
 
@@ -111,26 +193,54 @@ const CodingChallengePage: React.FC = () => {
 
     const handleSubmit = async () => {
         setIsSubmitting(true);
+        setSubmitError(null);
 
-        // Save submitted code for analysis page
-        localStorage.setItem('submittedCode', JSON.stringify({
+        // Save submitted code for analysis page (one entry per challenge)
+        const submitted = readSubmittedCode().filter(entry => entry.questionId !== questionData.id);
+        localStorage.setItem('submittedCode', JSON.stringify([...submitted, {
+            questionId: questionData.id,
             title: questionData.title || 'Coding Challenge',
             language: questionData.language || 'javascript',
             code: code,
-        }));
+        }]));
 
         try {
             // Submit code to backend for AI review
             if (sessionId && questionId) {
-                await submitCode(sessionId, questionId, code, questionData.language || 'javascript');
+                const result = await submitCode(sessionId, questionId, code, questionData.language || 'javascript');
+                localStorage.removeItem(draftKey);
+                localStorage.removeItem(`codeStartedAt:${sessionId}:${questionId}`);
+
+                // The template has another coding challenge: load it here
+                if (result.nextQuestion?.type === 'code') {
+                    const next = { ...result.nextQuestion, type: 'code' as const, sessionId };
+                    localStorage.setItem('codingQuestion', JSON.stringify(next));
+                    navigate(`/coding?sessionId=${sessionId}&questionId=${next.id}`, { replace: true });
+                    setQuestionData(next);
+                    setCode(next.starterCode || '');
+                    setConsoleOutput('');
+                    setShowTestResults(false);
+                    setIsSubmitting(false);
+                    return;
+                }
+                // A video question comes next: back to the interview room, which resumes the session
+                if (result.nextQuestion) {
+                    navigate(`/interview?sessionId=${sessionId}`);
+                    return;
+                }
             }
         } catch (err) {
+            // Stay on the challenge (the code is still in the editor) so it can be submitted again
             console.error('Code review failed:', err);
+            setSubmitError((err as Error).message || 'Failed to submit code');
+            setIsSubmitting(false);
+            return;
         }
 
-        // Navigate to completion
+        // No questions left: on to the report
         navigate('/completed');
     };
+    submitRef.current = handleSubmit;
 
     const handleBack = () => {
         navigate('/interview');
@@ -168,7 +278,11 @@ const CodingChallengePage: React.FC = () => {
                 <div className="flex items-center gap-3">
                     <div className="flex items-center gap-2 text-xs text-slate-500 bg-slate-50 px-3 py-1.5 rounded-full border border-slate-100">
                         <Clock className="w-3 h-3" />
-                        <span className="font-medium">{questionData.language || 'javascript'}</span>
+                        <span className="font-medium">
+                            {secondsLeft !== null
+                                ? `${Math.floor(secondsLeft / 60)}:${(secondsLeft % 60).toString().padStart(2, '0')} left`
+                                : questionData.language || 'javascript'}
+                        </span>
                     </div>
                     <button
                         onClick={handleSubmit}
@@ -190,6 +304,15 @@ const CodingChallengePage: React.FC = () => {
                 </div>
             </div>
 
+            {submitError && (
+                <div className="shrink-0 bg-red-50 border-b border-red-200 px-4 py-2.5 flex items-center gap-2 text-sm text-red-700">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span className="font-bold">Submission failed:</span>
+                    <span className="flex-1">{submitError}</span>
+                    <span className="text-red-500">Your code is kept — submit again to retry.</span>
+                </div>
+            )}
+
             {/* Main Content — Split View */}
             <div className="flex-1 flex min-h-0">
 
@@ -280,7 +403,7 @@ const CodingChallengePage: React.FC = () => {
                     <div className="flex-1 relative font-mono text-sm min-h-0">
                         <textarea
                             value={code}
-                            onChange={(e) => setCode(e.target.value)}
+                            onChange={(e) => handleCodeChange(e.target.value)}
                             className="w-full h-full bg-slate-900 text-slate-300 p-4 resize-none focus:outline-none custom-scrollbar leading-relaxed"
                             spellCheck={false}
                             placeholder="Write your solution here..."
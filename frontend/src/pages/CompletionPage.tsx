@@ -17,8 +17,9 @@ import {
     Loader2,
     Brain,
     AlertTriangle,
+    ListChecks,
 } from 'lucide-react';
-import { getAnalysis } from '../services/api';
+import { getAnalysis, type RubricBreakdown } from '../services/api';
 
 interface SkillScore {
     label: string;
@@ -46,6 +47,7 @@ interface AnalysisData {
     questionResults: QuestionResult[];
     feedback: FeedbackItem[];
     summary?: string;
+    rubricBreakdown: RubricBreakdown[];
 }
 
 const skillColors = ['bg-indigo-500', 'bg-violet-500', 'bg-emerald-500', 'bg-blue-500', 'bg-amber-500', 'bg-rose-500', 'bg-cyan-500'];
@@ -122,13 +124,16 @@ const CompletionPage: React.FC = () => {
         }
     }, [isAnalyzing, analysisData]);
 
-    // Read submitted code from localStorage
-    const submittedCodeData = (() => {
+    // Read submitted code from localStorage, one entry per coding challenge
+    const submittedCode = (() => {
         try {
             const raw = localStorage.getItem('submittedCode');
-            if (raw) return JSON.parse(raw) as { title: string; language: string; code: string };
+            if (raw) {
+                const parsed = JSON.parse(raw);
+                return (Array.isArray(parsed) ? parsed : [parsed]) as Array<{ questionId?: number; title: string; language: string; code: string }>;
+            }
         } catch { /* ignore */ }
-        return null;
+        return [];
     })();
 
     // Read interview transcripts from localStorage
@@ -235,7 +240,7 @@ const CompletionPage: React.FC = () => {
 
     // ─── Results View ───────────────────────────────────
 
-    const { overallScore, totalTime, recommendation, skills, questionResults, feedback, summary } = analysisData;
+    const { overallScore, totalTime, recommendation, skills, questionResults, feedback, summary, rubricBreakdown } = analysisData;
 
     return (
         <div className="h-full overflow-y-auto custom-scrollbar bg-slate-50">
@@ -379,6 +384,52 @@ const CompletionPage: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Rubric Breakdown */}
+                {rubricBreakdown.length > 0 && (
+                    <div className={`bg-white border border-slate-200 rounded-2xl p-6 shadow-sm mb-8 transition-all duration-500 delay-200 ${showDetails ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
+                        <div className="flex items-center gap-2 mb-5">
+                            <ListChecks className="w-5 h-5 text-emerald-500" />
+                            <h2 className="text-lg font-bold text-slate-900">Scoring Breakdown</h2>
+                        </div>
+                        <div className="space-y-4">
+                            {rubricBreakdown.map((q) => {
+                                const totalWeight = q.criteria.reduce((sum, c) => sum + c.weight, 0);
+                                return (
+                                    <div key={q.questionId} className="bg-slate-50 rounded-xl border border-slate-100 overflow-hidden">
+                                        <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-3">
+                                            <div className="w-7 h-7 rounded-lg bg-indigo-100 text-indigo-600 flex items-center justify-center text-xs font-bold">
+                                                Q{q.questionId}
+                                            </div>
+                                            <span className="flex-1 min-w-0 text-sm font-semibold text-slate-700 truncate">{q.question}</span>
+                                            <span className={`text-lg font-bold tabular-nums ${getScoreColor(q.score)}`}>{q.score}</span>
+                                        </div>
+                                        <div className="p-4 space-y-3">
+                                            {q.criteria.map((c) => (
+                                                <div key={c.criterionId}>
+                                                    <div className="flex justify-between items-center mb-1">
+                                                        <span className="text-sm font-medium text-slate-700">
+                                                            {c.name}
+                                                            <span className="ml-2 text-xs text-slate-400">{Math.round((c.weight / totalWeight) * 100)}% weight</span>
+                                                        </span>
+                                                        <span className="text-xs font-bold text-slate-600">{c.levelLabel}</span>
+                                                    </div>
+                                                    <div className="h-2 bg-slate-200/70 rounded-full overflow-hidden">
+                                                        <div
+                                                            className="h-full rounded-full bg-emerald-500 transition-all duration-1000 ease-out"
+                                                            style={{ width: animatedScores ? `${c.score}%` : '0%' }}
+                                                        />
+                                                    </div>
+                                                    {c.rationale && <p className="text-xs text-slate-500 mt-1">{c.rationale}</p>}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
                 {/* Your Answers / Transcripts */}
                 {Object.keys(transcripts).length > 0 && (
                     <div className={`bg-white border border-slate-200 rounded-2xl p-6 shadow-sm mb-8 transition-all duration-500 delay-250 ${showDetails ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
@@ -409,17 +460,17 @@ const CompletionPage: React.FC = () => {
                 )}
 
                 {/* Submitted Code Section */}
-                {submittedCodeData && (
-                    <div className={`bg-white border border-slate-200 rounded-2xl shadow-sm mb-8 overflow-hidden transition-all duration-500 delay-300 ${showDetails ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
+                {submittedCode.map((submitted, index) => (
+                    <div key={submitted.questionId ?? index} className={`bg-white border border-slate-200 rounded-2xl shadow-sm mb-8 overflow-hidden transition-all duration-500 delay-300 ${showDetails ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4'}`}>
                         <div className="p-6 pb-4">
                             <div className="flex items-center gap-2 mb-1">
                                 <FileCode className="w-5 h-5 text-blue-500" />
                                 <h2 className="text-lg font-bold text-slate-900">Your Submitted Code</h2>
                             </div>
                             <div className="flex items-center gap-3 mt-2">
-                                <span className="text-sm text-slate-500">{submittedCodeData.title}</span>
+                                <span className="text-sm text-slate-500">{submitted.title}</span>
                                 <span className="px-2 py-0.5 bg-blue-50 text-blue-600 text-xs font-bold rounded-full border border-blue-100 uppercase">
-                                    {submittedCodeData.language}
+                                    {submitted.language}
                                 </span>
                             </div>
                         </div>
@@ -431,13 +482,13 @@ const CompletionPage: React.FC = () => {
                                     <div className="w-2.5 h-2.5 rounded-full bg-green-500/60" />
                                 </div>
                                 <span className="text-xs text-slate-500 font-medium">
-                                    solution.{submittedCodeData.language === 'javascript' ? 'js' : submittedCodeData.language}
+                                    solution.{submitted.language === 'javascript' ? 'js' : submitted.language}
                                 </span>
                             </div>
                             <div className="overflow-x-auto custom-scrollbar">
                                 <pre className="p-4 text-sm leading-relaxed">
                                     <code>
-                                        {submittedCodeData.code.split('\n').map((line: string, idx: number) => (
+                                        {submitted.code.split('\n').map((line: string, idx: number) => (
                                             <div key={idx} className="flex">
                                                 <span className="inline-block w-8 text-right mr-4 text-slate-600 select-none text-xs leading-relaxed">{idx + 1}</span>
                                                 <span className="text-slate-300">{line || ' '}</span>
@@ -448,7 +499,7 @@ const CompletionPage: React.FC = () => {
                             </div>
                         </div>
                     </div>
-                )}
+                ))}
 
                 {/* Action Buttons */}
                 <div className="flex justify-center gap-4 pb-6">
@@ -5,13 +5,22 @@ import ActiveInterviewView from '../components/ActiveInterviewView';
 const InterviewPage: React.FC = () => {
     const navigate = useNavigate();
     const [searchParams] = useSearchParams();
-    const resumeFrom = parseInt(searchParams.get('resumeFrom') || '0', 10);
+    // An explicit ?sessionId= wins over the session this browser was last in
+    const resumeSessionId = searchParams.get('sessionId') || localStorage.getItem('interviewSessionId');
+    // ?template= picks the interview structure of a new session
+    const template = searchParams.get('template');
+    // ?role= (a role profile id or a job title) and ?company= describe the position
+    const role = searchParams.get('role');
+    const company = searchParams.get('company');
 
     return (
         <ActiveInterviewView
             onLeave={() => navigate('/')}
             onComplete={() => navigate('/completed')}
-            startIndex={resumeFrom}
+            resumeSessionId={resumeSessionId}
+            template={template}
+            role={role}
+            company={company}
         />
     );
 };
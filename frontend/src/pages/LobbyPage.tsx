@@ -1,12 +1,20 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import LobbyView from '../components/LobbyView';
 
 const LobbyPage: React.FC = () => {
     const navigate = useNavigate();
+    const { search } = useLocation();
+    const params = new URLSearchParams(search);
 
     return (
-        <LobbyView onJoin={() => navigate('/interview')} />
+        // Keep ?template=, ?role= and ?company= for the interview page
+        <LobbyView
+            role={params.get('role')}
+            company={params.get('company')}
+            template={params.get('template')}
+            onJoin={() => navigate(`/interview${search}`)}
+        />
     );
 };
 
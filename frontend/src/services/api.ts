@@ -7,36 +7,26 @@ const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 interface StartResponse {
     sessionId: string;
-    question: {
-        id: number;
-        type: 'video' | 'code';
-        text: string;
-        title?: string;
-        difficulty: string;
-        starterCode?: string;
-        language?: string;
-    };
+    /** The role title and company the session was created with */
+    role: string;
+    company: string;
+    question: SessionQuestion;
+    /** The template's sections, in the order they are asked */
+    sections: InterviewSection[];
     totalQuestions: number;
     currentQuestion: number;
 }
 
 interface AnswerResponse {
+    /** null when the interviewer followed up: the question is scored once its follow-ups are answered */
     evaluation: {
         score: number;
         strengths: string[];
         weaknesses: string[];
         brief: string;
         nextDifficulty: string;
-    };
-    nextQuestion: {
-        id: number;
-        type: 'video' | 'code';
-        text: string;
-        title?: string;
-        difficulty: string;
-        starterCode?: string;
-        language?: string;
     } | null;
+    nextQuestion: SessionQuestion | null;
     isLastVideoQuestion: boolean;
     currentQuestion: number;
     totalQuestions: number;
@@ -52,6 +42,32 @@ interface CodeReviewResponse {
         issues: string[];
         brief: string;
     };
+    /** The next question (video or code), or null when the interview is over */
+    nextQuestion: SessionQuestion | null;
+    isLastVideoQuestion: boolean;
+    currentQuestion: number;
+    totalQuestions: number;
+}
+
+interface ResumeResponse {
+    question: SessionQuestion;
+    currentQuestion: number;
+    totalQuestions: number;
+}
+
+export interface RubricBreakdown {
+    questionId: number;
+    question: string;
+    type: 'video' | 'code';
+    score: number;
+    criteria: Array<{
+        criterionId: string;
+        name: string;
+        weight: number;
+        levelLabel: string;
+        score: number;
+        rationale?: string;
+    }>;
 }
 
 interface AnalysisResponse {
@@ -69,17 +85,110 @@ interface AnalysisResponse {
         }>;
         feedback: Array<{ type: string; text: string }>;
         summary?: string;
+        rubricBreakdown: RubricBreakdown[];
     };
 }
 
+export interface SessionQuestion {
+    id: number;
+    type: 'video' | 'code';
+    text: string;
+    title?: string;
+    difficulty: string;
+    starterCode?: string;
+    language?: string;
+    /** Id of the template section the question belongs to */
+    section?: string;
+    /** The question this one follows up on: a continuation of it, not a new question */
+    parentId?: number;
+    /** Time the candidate gets for the question, if limited */
+    timeLimitSeconds?: number;
+}
+
+/** One part of the interview template (e.g. 3 technical video questions) */
+export interface InterviewSection {
+    id: string;
+    name: string;
+    type: 'video' | 'code';
+    count: number;
+    timeLimitSeconds?: number;
+}
+
+export type InterviewPhase =
+    | 'created'
+    | 'video'
+    | 'coding'
+    | 'analysing'
+    | 'completed'
+    | 'abandoned'
+    | 'expired';
+
+export type InterviewAction = 'answer' | 'submit-code' | 'complete' | 'resume' | 'leave';
+
+export interface SessionState {
+    sessionId: string;
+    phase: InterviewPhase;
+    sections: InterviewSection[];
+    /** Every question asked so far, in order */
+    questions: SessionQuestion[];
+    /** The question waiting for an answer, or null if all were answered */
+    currentQuestion: SessionQuestion | null;
+    totalQuestions: number;
+    /**
+     * What the backend accepts from the session right now; 'resume' when
+     * the call that would have asked the next question was cancelled
+     */
+    allowedActions: InterviewAction[];
+    /** Transcript or code submitted per question id */
+    answers: Record<number, string>;
+}
+
+export interface RoleProfile {
+    id: string;
+    title: string;
+    seniority: 'junior' | 'mid' | 'senior' | 'staff';
+    skills: string[];
+    topics: string[];
+}
+
+/** Role profiles a session can be started for (GET /api/interview/roles) */
+export interface RoleProfiles {
+    /** Profile used when /start names no role, if any is configured */
+    default: string | null;
+    company: string;
+    profiles: RoleProfile[];
+}
+
+export interface InterviewTemplateSummary {
+    id: string;
+    name: string;
+    description?: string;
+    maxDurationMinutes?: number;
+    totalQuestions: number;
+}
+
+/**
+ * Headers for a mutating call. The key is derived from what the call does,
+ * so a double-click or a retry after a dropped response gets the first
+ * result back instead of running the agents twice.
+ */
+function idempotentHeaders(key: string): Record<string, string> {
+    return { 'Content-Type': 'application/json', 'Idempotency-Key': key };
+}
+
+/**
+ * Start a session. `role` is a role profile id or a free-text title; whatever
+ * is left out (role, company, template) the backend fills with its defaults.
+ */
 export async function startInterview(
-    role: string = 'Senior Frontend Engineer',
-    company: string = 'Nebula Systems'
+    role?: string,
+    company?: string,
+    template?: string
 ): Promise<StartResponse> {
     const res = await fetch(`${API_BASE}/interview/start`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ role, company }),
+        body: JSON.stringify({ role, company, template }),
     });
 
     if (!res.ok) {
@@ -98,7 +207,7 @@ export async function submitAnswer(
 ): Promise<AnswerResponse> {
     const res = await fetch(`${API_BASE}/interview/answer`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: idempotentHeaders(`answer:${sessionId}:${questionId}`),
         body: JSON.stringify({ sessionId, questionId, transcript, skipped }),
     });
 
@@ -118,7 +227,7 @@ export async function submitCode(
 ): Promise<CodeReviewResponse> {
     const res = await fetch(`${API_BASE}/interview/submit-code`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: idempotentHeaders(`submit-code:${sessionId}:${questionId}`),
         body: JSON.stringify({ sessionId, questionId, code, language }),
     });
 
@@ -130,10 +239,47 @@ export async function submitCode(
     return res.json();
 }
 
+/**
+ * Ask the question a cancelled answer or code submission still owes (the
+ * candidate refreshed while it was being scored). `asked` is how many
+ * questions the session had, so a later resume gets its own key.
+ */
+export async function resumeInterview(sessionId: string, asked: number): Promise<ResumeResponse> {
+    const res = await fetch(`${API_BASE}/interview/resume`, {
+        method: 'POST',
+        headers: idempotentHeaders(`resume:${sessionId}:${asked}`),
+        body: JSON.stringify({ sessionId }),
+    });
+
+    if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Failed to resume interview');
+    }
+
+    return res.json();
+}
+
+/**
+ * Tell the backend the candidate left so it can cancel running agent calls.
+ * Best effort: uses keepalive so it still goes out while the page unloads.
+ */
+export async function leaveInterview(sessionId: string): Promise<void> {
+    try {
+        await fetch(`${API_BASE}/interview/leave`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ sessionId }),
+            keepalive: true,
+        });
+    } catch (err) {
+        console.warn('Failed to notify backend of leave:', err);
+    }
+}
+
 export async function getAnalysis(sessionId: string): Promise<AnalysisResponse> {
     const res = await fetch(`${API_BASE}/interview/complete`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: idempotentHeaders(`complete:${sessionId}`),
         body: JSON.stringify({ sessionId }),
     });
 
@@ -196,6 +342,77 @@ export async function getAnalysis(sessionId: string): Promise<AnalysisResponse>
             questionResults,
             feedback,
             summary: raw.summary as string | undefined,
+            // Computed by the backend from the rubric levels, not by the analyst
+            rubricBreakdown: Array.isArray(raw.rubricBreakdown) ? raw.rubricBreakdown as RubricBreakdown[] : [],
         },
     };
 }
+
+/**
+ * Load a session to resume it after a refresh or disconnect.
+ * Returns null when the backend no longer knows the session.
+ */
+export async function getSessionState(sessionId: string): Promise<SessionState | null> {
+    const res = await fetch(`${API_BASE}/interview/session/${encodeURIComponent(sessionId)}`);
+
+    if (res.status === 404) return null;
+    if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Failed to load session');
+    }
+
+    const data = await res.json();
+    const raw = data.session as Record<string, unknown>;
+    const rawQuestions = Array.isArray(raw.questions) ? raw.questions as Array<Record<string, unknown>> : [];
+
+    const sections: InterviewSection[] = Array.isArray(raw.sections)
+        ? (raw.sections as Array<Record<string, unknown>>).map(s => ({
+            id: s.id as string,
+            name: s.name as string,
+            type: s.type as 'video' | 'code',
+            count: Number(s.count) || 0,
+            timeLimitSeconds: s.timeLimitSeconds as number | undefined,
+        }))
+        : [];
+
+    const questions: SessionQuestion[] = rawQuestions.map(q => ({
+        id: Number(q.id),
+        type: q.type as 'video' | 'code',
+        text: q.text as string,
+        title: q.title as string | undefined,
+        difficulty: q.difficulty as string,
+        starterCode: q.starterCode as string | undefined,
+        language: q.language as string | undefined,
+        section: q.section as string | undefined,
+        parentId: q.parentId as number | undefined,
+        timeLimitSeconds: sections.find(s => s.id === q.section)?.timeLimitSeconds,
+    }));
+
+    const answers: Record<number, string> = {};
+    for (const q of rawQuestions) {
+        if (typeof q.answer === 'string') answers[Number(q.id)] = q.answer;
+    }
+
+    return {
+        sessionId: raw.id as string,
+        phase: raw.phase as InterviewPhase,
+        sections,
+        questions,
+        currentQuestion: questions.find(q => !(q.id in answers)) ?? null,
+        totalQuestions: Number(data.totalQuestions) || questions.length,
+        allowedActions: Array.isArray(data.allowedActions) ? data.allowedActions as InterviewAction[] : [],
+        answers,
+    };
+}
+
+export async function getRoleProfiles(): Promise<RoleProfiles> {
+    const res = await fetch(`${API_BASE}/interview/roles`);
+    if (!res.ok) throw new Error('Failed to load role profiles');
+    return res.json();
+}
+
+export async function getInterviewTemplates(): Promise<{ default: string; templates: InterviewTemplateSummary[] }> {
+    const res = await fetch(`${API_BASE}/interview/templates`);
+    if (!res.ok) throw new Error('Failed to load interview templates');
+    return res.json();
+}